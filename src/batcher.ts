@@ -0,0 +1,245 @@
+/**
+ * Request batching – coalesces concurrent `load(key)` calls into one `batchFn(keys, signal)` call (DataLoader style),
+ * bound to a scope: pending loads reject and in-flight batches abort when the scope closes.
+ */
+
+/**
+ * Options for task.batcher / {@link createBatcher}.
+ * @property maxBatchSize - Max keys per batchFn call (integer >= 1 or Infinity; default Infinity). A full batch is
+ * dispatched right away
+ * @property maxWaitMs - How long the first load of a batch waits for more keys before dispatching (default 0: the
+ * loads of the current tick are batched together)
+ * @property cacheKey - Maps a key to the value loads are deduplicated and cached by (default: the key itself). Use it
+ * for object keys, e.g. `(key) => key.id`
+ */
+export type BatcherOptions<K> = {
+  maxBatchSize?: number;
+  maxWaitMs?: number;
+  cacheKey?: (key: K) => unknown;
+};
+
+/**
+ * Batch function: receives the batch's keys and a signal that aborts when the scope closes or every waiter of the batch
+ * is gone. Must resolve with one value per key, in key order; an `Error` value rejects only that key's loads.
+ */
+export type BatchFn<K, V> = (keys: K[], signal: AbortSignal) => Promise<readonly (V | Error)[]>;
+
+/** A scope-bound batcher returned by task.batcher. */
+export type Batcher<K, V> = {
+  /**
+   * Loads the value for key, batched with the other loads of the same tick (or `maxWaitMs`). Concurrent loads of the
+   * same key share one slot in the batch, and successful values are cached for the batcher's lifetime.
+   * @param key - Key passed to batchFn
+   * @param signal - Optional AbortSignal of the caller (e.g. the caller task's signal); on abort the load rejects with
+   * its reason and leaves the batch
+   */
+  load(key: K, signal?: AbortSignal): Promise<V>;
+  /** Drops the cached value for key, or every cached value when key is omitted. */
+  clear(key?: K): void;
+};
+
+type Waiter<V> = {
+  resolve: (value: V) => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+};
+
+type Entry<K, V> = {
+  key: K;
+  cacheKey: unknown;
+  waiters: Set<Waiter<V>>;
+  batch?: Batch<K, V>;
+};
+
+type Batch<K, V> = {
+  entries: Entry<K, V>[];
+  controller: AbortController;
+};
+
+/**
+ * Creates a batcher bound to `signal` (e.g. scope.signal). Loads are queued and dispatched to batchFn at most
+ * `maxBatchSize` keys at a time, after `maxWaitMs` or as soon as a batch is full. A load whose caller signal aborts is
+ * removed from the pending batch (or, once dispatched, stops waiting); when every waiter of a dispatched batch is gone,
+ * the batch's signal aborts. When `signal` aborts, pending and in-flight loads reject with its reason and in-flight
+ * batches abort.
+ * Validates maxBatchSize is an integer >= 1 (or Infinity) and maxWaitMs is a number >= 0 (throws synchronously otherwise).
+ * @param signal - AbortSignal of the owning scope
+ * @param batchFn - Batch function; see {@link BatchFn}
+ * @param options - BatcherOptions (maxBatchSize, maxWaitMs, cacheKey)
+ */
+export function createBatcher<K, V>(
+  signal: AbortSignal,
+  batchFn: BatchFn<K, V>,
+  options: BatcherOptions<K> = {},
+): Batcher<K, V> {
+  const { maxBatchSize = Infinity, maxWaitMs = 0, cacheKey = (key: K) => key } = options;
+  if (
+    typeof maxBatchSize !== "number" ||
+    maxBatchSize < 1 ||
+    (maxBatchSize !== Infinity && Math.floor(maxBatchSize) !== maxBatchSize)
+  ) {
+    throw new Error(`task.batcher maxBatchSize must be an integer >= 1 or Infinity, got: ${maxBatchSize}`);
+  }
+  if (typeof maxWaitMs !== "number" || !(maxWaitMs >= 0)) {
+    throw new Error(`task.batcher maxWaitMs must be a number >= 0, got: ${maxWaitMs}`);
+  }
+
+  const cache = new Map<unknown, V>();
+  // Entries pending or in flight, by cache key, so concurrent loads of a key share one entry.
+  const entries = new Map<unknown, Entry<K, V>>();
+  let pending: Entry<K, V>[] = [];
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const detach = (waiter: Waiter<V>): void => {
+    waiter.signal?.removeEventListener("abort", waiter.onAbort!);
+  };
+
+  const rejectEntry = (entry: Entry<K, V>, reason: unknown): void => {
+    for (const waiter of entry.waiters) {
+      detach(waiter);
+      waiter.reject(reason);
+    }
+    entry.waiters.clear();
+  };
+
+  signal.addEventListener(
+    "abort",
+    () => {
+      clearTimeout(timerId);
+      timerId = undefined;
+      const stranded = pending;
+      pending = [];
+      for (const entry of stranded) {
+        entries.delete(entry.cacheKey);
+        rejectEntry(entry, signal.reason);
+      }
+    },
+    { once: true },
+  );
+
+  /** Called when a waiter leaves: drops an entry nobody waits for, and aborts a batch nobody waits for. */
+  const leave = (entry: Entry<K, V>, reason: unknown): void => {
+    if (entry.waiters.size > 0) return;
+    const { batch } = entry;
+    if (!batch) {
+      entries.delete(entry.cacheKey);
+      pending = pending.filter((e) => e !== entry);
+      if (pending.length === 0) {
+        clearTimeout(timerId);
+        timerId = undefined;
+      }
+      return;
+    }
+    if (batch.entries.every((e) => e.waiters.size === 0)) {
+      for (const e of batch.entries) {
+        if (entries.get(e.cacheKey) === e) entries.delete(e.cacheKey);
+      }
+      batch.controller.abort(reason);
+    }
+  };
+
+  const dispatch = (): void => {
+    clearTimeout(timerId);
+    timerId = undefined;
+    while (pending.length > 0) {
+      const batchEntries = pending.splice(0, maxBatchSize);
+      runBatch(batchEntries);
+    }
+  };
+
+  const runBatch = (batchEntries: Entry<K, V>[]): void => {
+    const controller = new AbortController();
+    const batch: Batch<K, V> = { entries: batchEntries, controller };
+    for (const entry of batchEntries) entry.batch = batch;
+    const onAbort = (): void => {
+      controller.abort(signal.reason);
+      for (const entry of batchEntries) rejectEntry(entry, signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    const done = (): void => {
+      signal.removeEventListener("abort", onAbort);
+      for (const entry of batchEntries) {
+        if (entries.get(entry.cacheKey) === entry) entries.delete(entry.cacheKey);
+      }
+    };
+
+    let result: Promise<readonly (V | Error)[]>;
+    try {
+      result = batchFn(
+        batchEntries.map((e) => e.key),
+        controller.signal,
+      );
+    } catch (err) {
+      result = Promise.reject(err);
+    }
+    Promise.resolve(result).then(
+      (values) => {
+        done();
+        if (!Array.isArray(values) || values.length !== batchEntries.length) {
+          const error = new Error(
+            `task.batcher batchFn must resolve with an array of ${batchEntries.length} values, got: ${
+              Array.isArray(values) ? `${values.length} values` : values
+            }`,
+          );
+          for (const entry of batchEntries) rejectEntry(entry, error);
+          return;
+        }
+        batchEntries.forEach((entry, i) => {
+          const value = values[i];
+          if (value instanceof Error) {
+            rejectEntry(entry, value);
+            return;
+          }
+          if (!controller.signal.aborted) cache.set(entry.cacheKey, value as V);
+          for (const waiter of entry.waiters) {
+            detach(waiter);
+            waiter.resolve(value as V);
+          }
+          entry.waiters.clear();
+        });
+      },
+      (err: unknown) => {
+        done();
+        for (const entry of batchEntries) rejectEntry(entry, err);
+      },
+    );
+  };
+
+  const load = (key: K, callerSignal?: AbortSignal): Promise<V> => {
+    if (signal.aborted) return Promise.reject(signal.reason);
+    if (callerSignal?.aborted) return Promise.reject(callerSignal.reason);
+    const ck = cacheKey(key);
+    if (cache.has(ck)) return Promise.resolve(cache.get(ck)!);
+
+    let entry = entries.get(ck);
+    if (!entry) {
+      entry = { key, cacheKey: ck, waiters: new Set() };
+      entries.set(ck, entry);
+      pending.push(entry);
+      if (pending.length >= maxBatchSize) dispatch();
+      else if (timerId === undefined) timerId = setTimeout(dispatch, maxWaitMs);
+    }
+    const current = entry;
+    return new Promise<V>((resolve, reject) => {
+      const waiter: Waiter<V> = { resolve, reject, signal: callerSignal };
+      if (callerSignal) {
+        waiter.onAbort = () => {
+          current.waiters.delete(waiter);
+          reject(callerSignal.reason);
+          leave(current, callerSignal.reason);
+        };
+        callerSignal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      current.waiters.add(waiter);
+    });
+  };
+
+  return {
+    load,
+    clear(key?: K): void {
+      if (key === undefined) cache.clear();
+      else cache.delete(cacheKey(key));
+    },
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Task cache – caches async results per key with a TTL, serves stale values while a background task refreshes them,
+ * and shares one load per key between concurrent callers.
+ */
+
+import { runTask } from "./task.js";
+import { getCurrentScope } from "./scope.js";
+import { joinFlight, type Flight } from "./single-flight.js";
+
+/**
+ * Options for {@link createTaskCache}.
+ * @property ttlMs - How long a stored value is fresh (number >= 0)
+ * @property staleWhileRevalidateMs - How long after ttlMs a stale value is still returned while a background refresh
+ * runs (default 0: expired values are reloaded before returning)
+ * @property maxEntries - Max cached keys; the least recently used key is evicted beyond it (integer >= 1; default Infinity)
+ * @property signal - AbortSignal of the long-lived owner scope that background refreshes are tied to (default: the
+ * current scope's signal when the cache is created). Once it aborts, refreshes are canceled and stale values are reloaded
+ * by callers instead
+ * @property name - Name of background refresh tasks (default "cache-refresh")
+ */
+export type TaskCacheOptions = {
+  ttlMs: number;
+  staleWhileRevalidateMs?: number;
+  maxEntries?: number;
+  signal?: AbortSignal;
+  name?: string;
+};
+
+/** A cache of async results created by {@link createTaskCache}. */
+export type TaskCache<K, V> = {
+  /**
+   * Returns the cached value for key, or loads it with work(signal). A fresh value resolves right away; a stale one
+   * (within staleWhileRevalidateMs) resolves right away and starts a background refresh. Concurrent loads of a key share
+   * one execution: canceling a caller only detaches it, and the load is aborted once every caller is gone. Only
+   * successful loads are stored, so failures and cancellations are never cached. Rejects with the signal's reason when
+   * it has already aborted, even on a hit.
+   * @param key - Cache key (compared with Map semantics)
+   * @param work - Loads the value; receives a signal that aborts when every caller has detached
+   * @param signal - Optional AbortSignal of the caller (default: the current scope's signal)
+   */
+  get(key: K, work: (signal: AbortSignal) => Promise<V>, signal?: AbortSignal): Promise<V>;
+  /** Removes the cached value for key. A load of key already in flight still settles for its callers but is not stored. */
+  delete(key: K): void;
+  /** Removes every cached value. Loads already in flight still settle for their callers but are not stored. */
+  clear(): void;
+  /** Number of cached keys (fresh or stale). */
+  readonly size: number;
+};
+
+type CacheEntry<V> = { value: V; storedAt: number };
+
+/**
+ * Creates a cache of async results. Values are fresh for `ttlMs`, then served stale for `staleWhileRevalidateMs` while
+ * one background task (bound to the owner `signal`) refreshes them, then reloaded. Concurrent loads and refreshes of a
+ * key are deduplicated (see singleFlight). Failed loads, including `CancelReason` rejections, are not stored: the next
+ * get loads again, and a failed refresh keeps the stale value.
+ * Validates ttlMs / staleWhileRevalidateMs are numbers >= 0 and maxEntries is an integer >= 1 (throws synchronously otherwise).
+ *
+ * @example
+ * const configs = createTaskCache<string, Config>({ ttlMs: 30_000, staleWhileRevalidateMs: 300_000, signal: app.signal });
+ * const config = await configs.get(tenant, (signal) => fetchConfig(tenant, signal));
+ */
+export function createTaskCache<K = unknown, V = unknown>(options: TaskCacheOptions): TaskCache<K, V> {
+  const { ttlMs, staleWhileRevalidateMs = 0, maxEntries = Infinity, name = "cache-refresh" } = options;
+  if (typeof ttlMs !== "number" || !(ttlMs >= 0)) {
+    throw new Error(`Task cache ttlMs must be a number >= 0, got: ${ttlMs}`);
+  }
+  if (typeof staleWhileRevalidateMs !== "number" || !(staleWhileRevalidateMs >= 0)) {
+    throw new Error(`Task cache staleWhileRevalidateMs must be a number >= 0, got: ${staleWhileRevalidateMs}`);
+  }
+  if (
+    typeof maxEntries !== "number" ||
+    maxEntries < 1 ||
+    (maxEntries !== Infinity && Math.floor(maxEntries) !== maxEntries)
+  ) {
+    throw new Error(`Task cache maxEntries must be an integer >= 1, got: ${maxEntries}`);
+  }
+  const ownerSignal = options.signal ?? getCurrentScope()?.signal;
+
+  // Map order is recency order: a hit moves its key to the end, eviction takes the first key.
+  const entries = new Map<K, CacheEntry<V>>();
+  const flights = new Map<unknown, Flight>();
+  // Current load per key; delete and clear drop it so a load started before them does not store its result.
+  const loads = new Map<K, object>();
+
+  const store = (key: K, value: V): void => {
+    entries.delete(key);
+    entries.set(key, { value, storedAt: Date.now() });
+    while (entries.size > maxEntries) entries.delete(entries.keys().next().value as K);
+  };
+
+  const loadAndStore =
+    (key: K, work: (signal: AbortSignal) => Promise<V>) =>
+    async (signal: AbortSignal): Promise<V> => {
+      const load = {};
+      loads.set(key, load);
+      try {
+        const value = await work(signal);
+        if (loads.get(key) === load) store(key, value);
+        return value;
+      } finally {
+        if (loads.get(key) === load) loads.delete(key);
+      }
+    };
+
+  const refresh = (key: K, work: (signal: AbortSignal) => Promise<V>): void => {
+    if (flights.has(key) || ownerSignal?.aborted) return;
+    const t = runTask(joinFlight(flights, key, loadAndStore(key, work)), {
+      ...(ownerSignal && { signal: ownerSignal }),
+      name,
+    });
+    // A failed refresh keeps the stale value until it expires.
+    t.then(undefined, () => {});
+  };
+
+  return {
+    get(key, work, signal) {
+      const callerSignal = signal ?? getCurrentScope()?.signal;
+      if (callerSignal?.aborted) return Promise.reject(callerSignal.reason);
+      const entry = entries.get(key);
+      if (entry) {
+        const age = Date.now() - entry.storedAt;
+        if (age < ttlMs + staleWhileRevalidateMs && !(age >= ttlMs && ownerSignal?.aborted)) {
+          entries.delete(key);
+          entries.set(key, entry);
+          if (age >= ttlMs) refresh(key, work);
+          return Promise.resolve(entry.value);
+        }
+        entries.delete(key);
+      }
+      return Promise.resolve(
+        runTask(joinFlight(flights, key, loadAndStore(key, work)), {
+          ...(callerSignal && { signal: callerSignal }),
+        }),
+      );
+    },
+    delete(key) {
+      entries.delete(key);
+      loads.delete(key);
+      flights.delete(key);
+    },
+    clear() {
+      entries.clear();
+      loads.clear();
+      flights.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Channel – Go-style bounded queue between tasks, bound to a scope's AbortSignal.
+ * Senders wait when the buffer is full; receivers wait when it is empty; scope abort rejects every waiter.
+ */
+
+/**
+ * Error thrown when sending on a closed channel, or receiving from a channel that is closed and drained.
+ */
+export class ChannelClosedError extends Error {
+  constructor(message = "Channel is closed") {
+    super(message);
+    this.name = "ChannelClosedError";
+    Object.setPrototypeOf(this, ChannelClosedError.prototype);
+  }
+}
+
+/** Options for {@link createChannel}. */
+export type ChannelOptions = {
+  /** Number of values the channel holds without a waiting receiver (default 0: every send waits for a receiver). */
+  bufferSize?: number;
+};
+
+/**
+ * Bounded channel for passing values between tasks. Async iterable: `for await (const v of channel)` receives until the
+ * channel is closed and drained; breaking out of the loop detaches the pending receive.
+ */
+export type Channel<T> = {
+  /** Sends a value. Resolves once the value is buffered or handed to a receiver; waits while the buffer is full. Rejects with {@link ChannelClosedError} when closed, or with the scope's reason on abort. */
+  send(value: T): Promise<void>;
+  /** Receives the next value, waiting while the channel is empty. Rejects with {@link ChannelClosedError} once the channel is closed and drained, or with the scope's reason on abort. */
+  receive(): Promise<T>;
+  /** Closes the channel: pending and future sends reject with {@link ChannelClosedError}; buffered values can still be received. Idempotent. */
+  close(): void;
+  /** True once {@link Channel.close} was called or the scope aborted. */
+  readonly closed: boolean;
+  /** Number of values currently buffered. */
+  readonly size: number;
+  [Symbol.asyncIterator](): AsyncIterator<T, undefined>;
+};
+
+type Sender<T> = { value: T; resolve: () => void; reject: (reason: unknown) => void };
+type Receiver<T> = { resolve: (value: T) => void; reject: (reason: unknown) => void };
+
+/**
+ * Creates a channel bound to the given AbortSignal. Validates bufferSize is an integer >= 0 (throws synchronously otherwise).
+ * When the signal aborts, pending senders and receivers are rejected with the signal's reason (the scope's
+ * `CancelReason`) and every later send/receive rejects with it too.
+ *
+ * @param signal - AbortSignal (e.g. scope.signal) owning the channel's lifetime
+ * @param options - Optional bufferSize (default 0)
+ * @returns A {@link Channel}
+ */
+export function createChannel<T>(signal: AbortSignal, options?: ChannelOptions): Channel<T> {
+  const bufferSize = options?.bufferSize ?? 0;
+  if (typeof bufferSize !== "number" || bufferSize < 0 || Math.floor(bufferSize) !== bufferSize) {
+    throw new Error(`Channel bufferSize must be an integer >= 0, got: ${bufferSize}`);
+  }
+  const buffer: T[] = [];
+  const senders: Sender<T>[] = [];
+  const receivers: Receiver<T>[] = [];
+  let closed = false;
+
+  const onAbort = (): void => {
+    closed = true;
+    const reason = signal.reason;
+    for (const s of senders.splice(0)) s.reject(reason);
+    for (const r of receivers.splice(0)) r.reject(reason);
+  };
+  if (signal.aborted) {
+    closed = true;
+  } else {
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+
+  function send(value: T): Promise<void> {
+    if (signal.aborted) return Promise.reject(signal.reason);
+    if (closed) return Promise.reject(new ChannelClosedError("Cannot send on a closed channel"));
+    const receiver = receivers.shift();
+    if (receiver) {
+      receiver.resolve(value);
+      return Promise.resolve();
+    }
+    if (buffer.length < bufferSize) {
+      buffer.push(value);
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, reject) => {
+      senders.push({ value, resolve, reject });
+    });
+  }
+
+  /** Takes a value synchronously when one is available, refilling the buffer from the first waiting sender. */
+  function take(): { ok: true; value: T } | { ok: false } {
+    if (buffer.length > 0) {
+      const value = buffer.shift()!;
+      const sender = senders.shift();
+      if (sender) {
+        buffer.push(sender.value);
+        sender.resolve();
+      }
+      return { ok: true, value };
+    }
+    const sender = senders.shift();
+    if (sender) {
+      sender.resolve();
+      return { ok: true, value: sender.value };
+    }
+    return { ok: false };
+  }
+
+  function receiveWith(receiver: Receiver<T>): void {
+    if (signal.aborted) {
+      receiver.reject(signal.reason);
+      return;
+    }
+    const taken = take();
+    if (taken.ok) {
+      receiver.resolve(taken.value);
+    } else if (closed) {
+      receiver.reject(new ChannelClosedError());
+    } else {
+      receivers.push(receiver);
+    }
+  }
+
+  function receive(): Promise<T> {
+    return new Promise<T>((resolve, reject) => receiveWith({ resolve, reject }));
+  }
+
+  function close(): void {
+    if (closed) return;
+    closed = true;
+    for (const s of senders.splice(0)) s.reject(new ChannelClosedError("Channel closed while sending"));
+    for (const r of receivers.splice(0)) r.reject(new ChannelClosedError());
+  }
+
+  function iterator(): AsyncIterator<T, undefined> {
+    let pending: (Receiver<T> & { settle: (result: IteratorResult<T, undefined>) => void }) | undefined;
+    return {
+      next(): Promise<IteratorResult<T, undefined>> {
+        return new Promise((settle, fail) => {
+          const receiver = {
+            settle,
+            resolve: (value: T) => {
+              pending = undefined;
+              settle({ done: false, value });
+            },
+            reject: (reason: unknown) => {
+              pending = undefined;
+              if (reason instanceof ChannelClosedError) settle({ done: true, value: undefined });
+              else fail(reason);
+            },
+          };
+          pending = receiver;
+          receiveWith(receiver);
+        });
+      },
+      return(): Promise<IteratorResult<T, undefined>> {
+        if (pending) {
+          const i = receivers.indexOf(pending);
+          if (i !== -1) receivers.splice(i, 1);
+          pending.settle({ done: true, value: undefined });
+          pending = undefined;
+        }
+        return Promise.resolve({ done: true, value: undefined });
+      },
+    };
+  }
+
+  return {
+    send,
+    receive,
+    close,
+    get closed() {
+      return closed;
+    },
+    get size() {
+      return buffer.length;
+    },
+    [Symbol.asyncIterator]: iterator,
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Circuit breaker – fails fast while a dependency is failing, then probes it before letting traffic back in.
+ * Scope cancellations are neutral: a call canceled because its scope closed says nothing about the dependency.
+ */
+
+import { circuitStateChanged } from "./debug.js";
+
+/** State of a {@link CircuitBreaker}: closed (calls pass), open (calls fail fast) or half-open (limited probes pass). */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Error a {@link CircuitBreaker} call rejects with, without running the work, while the circuit is open or its
+ * half-open probe slots are taken.
+ */
+export class CircuitOpenError extends Error {
+  /** Milliseconds until the circuit moves to half-open (0 while half-open). */
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number, name?: string) {
+    super(`Circuit${name ? ` "${name}"` : ""} is open`);
+    this.name = "CircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Options for {@link createCircuitBreaker}.
+ * @property failureThreshold - Failures within `windowMs` that open the circuit (integer >= 1)
+ * @property windowMs - Rolling window in ms over which failures are counted
+ * @property halfOpenAfterMs - How long the circuit stays open before letting probe calls through
+ * @property halfOpenMaxCalls - Probe calls allowed at once while half-open (default 1). A successful probe closes the
+ * circuit, a failed one opens it again
+ * @property isFailure - Decides whether a rejection counts as a failure (default: every rejection). Cancellations are
+ * neutral regardless (see {@link createCircuitBreaker})
+ * @property name - Name used in {@link CircuitOpenError} messages and debug events
+ * @property onStateChange - Called on every state change with the new and previous state
+ */
+export type CircuitBreakerOptions = {
+  failureThreshold: number;
+  windowMs: number;
+  halfOpenAfterMs: number;
+  halfOpenMaxCalls?: number;
+  isFailure?: (error: unknown) => boolean;
+  name?: string;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+};
+
+/** A circuit breaker shared by every caller of a dependency. */
+export type CircuitBreaker = {
+  /**
+   * Runs work(signal) through the breaker. Rejects with {@link CircuitOpenError} without running the work while open,
+   * or while half-open with every probe slot taken.
+   * @param work - Async work; receives `signal`
+   * @param signal - AbortSignal of the caller (e.g. scope.signal)
+   */
+  run<T>(work: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T>;
+  /** Current state; an open circuit reads as half-open once halfOpenAfterMs has elapsed. */
+  readonly state: CircuitState;
+  /** Failures counted in the current window. */
+  readonly failures: number;
+  /** Closes the circuit and forgets recorded failures. */
+  reset(): void;
+};
+
+/** True for the cancellation reasons of a closed scope or an explicit abort, which do not count against the dependency. */
+function isNeutralCancel(error: unknown): boolean {
+  const type = typeof error === "object" && error !== null ? (error as { type?: unknown }).type : undefined;
+  return type === "scope-closed" || type === "user-abort";
+}
+
+/**
+ * Creates a circuit breaker. While closed, failures are counted over a rolling `windowMs`; reaching `failureThreshold`
+ * opens the circuit, and calls fail fast with {@link CircuitOpenError}. After `halfOpenAfterMs`, up to
+ * `halfOpenMaxCalls` probes run: a success closes the circuit, a failure opens it again.
+ * A rejection is neutral (neither success nor failure) when it is a `scope-closed` or `user-abort` `CancelReason`,
+ * or when the caller's signal aborted while the work ran. State changes go to `onStateChange` and, with task debug
+ * enabled, to `subscribeTaskDebug` as `circuitStateChanged` events.
+ * Validates failureThreshold and halfOpenMaxCalls are integers >= 1 and windowMs / halfOpenAfterMs are numbers >= 0
+ * (throws synchronously otherwise).
+ *
+ * @example
+ * const breaker = createCircuitBreaker({ failureThreshold: 5, windowMs: 10_000, halfOpenAfterMs: 30_000 });
+ * const user = await breaker.run((signal) => fetchUser(id, signal), scope.signal);
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const {
+    failureThreshold,
+    windowMs,
+    halfOpenAfterMs,
+    halfOpenMaxCalls = 1,
+    isFailure = () => true,
+    name,
+    onStateChange,
+  } = options;
+  if (typeof failureThreshold !== "number" || failureThreshold < 1 || Math.floor(failureThreshold) !== failureThreshold) {
+    throw new Error(`Circuit breaker failureThreshold must be an integer >= 1, got: ${failureThreshold}`);
+  }
+  if (typeof windowMs !== "number" || !(windowMs >= 0)) {
+    throw new Error(`Circuit breaker windowMs must be a number >= 0, got: ${windowMs}`);
+  }
+  if (typeof halfOpenAfterMs !== "number" || !(halfOpenAfterMs >= 0)) {
+    throw new Error(`Circuit breaker halfOpenAfterMs must be a number >= 0, got: ${halfOpenAfterMs}`);
+  }
+  if (typeof halfOpenMaxCalls !== "number" || halfOpenMaxCalls < 1 || Math.floor(halfOpenMaxCalls) !== halfOpenMaxCalls) {
+    throw new Error(`Circuit breaker halfOpenMaxCalls must be an integer >= 1, got: ${halfOpenMaxCalls}`);
+  }
+
+  let state: CircuitState = "closed";
+  let failureTimes: number[] = [];
+  let openedAt = 0;
+  let probes = 0;
+  // Bumped on every transition so a probe that outlives its half-open period does not release a later period's slot.
+  let generation = 0;
+
+  function transition(next: CircuitState): void {
+    if (next === state) return;
+    const previous = state;
+    state = next;
+    generation++;
+    if (next === "open") openedAt = Date.now();
+    if (next !== "closed") probes = 0;
+    if (next === "closed") failureTimes = [];
+    circuitStateChanged(name, previous, next);
+    try {
+      onStateChange?.(next, previous);
+    } catch (err) {
+      console.error("[taskloom] circuit breaker onStateChange threw:", err);
+    }
+  }
+
+  /** Moves an open circuit to half-open once halfOpenAfterMs has elapsed. */
+  function currentState(): CircuitState {
+    if (state === "open" && Date.now() - openedAt >= halfOpenAfterMs) transition("half-open");
+    return state;
+  }
+
+  function pruneFailures(now: number): void {
+    while (failureTimes.length > 0 && now - failureTimes[0] > windowMs) failureTimes.shift();
+  }
+
+  function recordFailure(probe: boolean): void {
+    if (probe) {
+      if (state === "half-open") transition("open");
+      return;
+    }
+    if (state !== "closed") return;
+    const now = Date.now();
+    failureTimes.push(now);
+    pruneFailures(now);
+    if (failureTimes.length >= failureThreshold) transition("open");
+  }
+
+  function recordSuccess(probe: boolean): void {
+    if (probe && state === "half-open") transition("closed");
+  }
+
+  async function run<T>(work: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T> {
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+    const current = currentState();
+    if (current === "open") {
+      throw new CircuitOpenError(Math.max(0, halfOpenAfterMs - (Date.now() - openedAt)), name);
+    }
+    const probe = current === "half-open";
+    const probeGeneration = generation;
+    if (probe) {
+      if (probes >= halfOpenMaxCalls) throw new CircuitOpenError(0, name);
+      probes++;
+    }
+    try {
+      const value = await work(signal);
+      recordSuccess(probe);
+      return value;
+    } catch (err) {
+      if (!signal.aborted && !isNeutralCancel(err) && isFailure(err)) recordFailure(probe);
+      throw err;
+    } finally {
+      if (probe && generation === probeGeneration) probes--;
+    }
+  }
+
+  return {
+    run,
+    get state() {
+      return currentState();
+    },
+    get failures() {
+      pruneFailures(Date.now());
+      return failureTimes.length;
+    },
+    reset(): void {
+      failureTimes = [];
+      transition("closed");
+    },
+  };
+}
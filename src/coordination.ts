@@ -0,0 +1,220 @@
+/**
+ * Coordination primitives for multi-phase work: CountDownLatch, cyclic Barrier, ManualResetEvent and OneShot.
+ * Every wait takes an AbortSignal and rejects with its reason (e.g. the scope's CancelReason) when it aborts.
+ */
+
+/**
+ * Error thrown by {@link Barrier.wait} when the barrier is broken: a participant was canceled while waiting
+ * (later waits reject with this error until {@link Barrier.reset}), or the barrier was reset while parties were waiting.
+ */
+export class BarrierBrokenError extends Error {
+  constructor(message = "Barrier is broken") {
+    super(message);
+    this.name = "BarrierBrokenError";
+    Object.setPrototypeOf(this, BarrierBrokenError.prototype);
+  }
+}
+
+type Waiter<T> = { resolve: (value: T) => void; reject: (reason: unknown) => void };
+
+/**
+ * Adds a waiter to the list until it is resolved by the primitive. When the signal aborts first, the waiter is removed,
+ * onAbort runs (e.g. to break a barrier) and the Promise rejects with the signal's reason.
+ */
+function wait<T>(
+  waiters: Waiter<T>[],
+  signal: AbortSignal | undefined,
+  onAbort?: (reason: unknown) => void,
+): Promise<T> {
+  if (signal?.aborted) {
+    onAbort?.(signal.reason);
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const abort = (): void => {
+      const i = waiters.indexOf(waiter);
+      if (i !== -1) waiters.splice(i, 1);
+      reject(signal!.reason);
+      onAbort?.(signal!.reason);
+    };
+    const waiter: Waiter<T> = {
+      resolve: (value) => {
+        signal?.removeEventListener("abort", abort);
+        resolve(value);
+      },
+      reject: (reason) => {
+        signal?.removeEventListener("abort", abort);
+        reject(reason);
+      },
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    waiters.push(waiter);
+  });
+}
+
+/**
+ * Latch that opens once {@link CountDownLatch.countDown} has been called `count` times. Validates count is an integer >= 0.
+ *
+ * @example
+ * const ready = new CountDownLatch(workers.length);
+ * // each worker: ready.countDown();
+ * await ready.wait(scope.signal);
+ */
+export class CountDownLatch {
+  #count: number;
+  readonly #waiters: Waiter<void>[] = [];
+
+  constructor(count: number) {
+    if (typeof count !== "number" || count < 0 || Math.floor(count) !== count) {
+      throw new Error(`CountDownLatch count must be an integer >= 0, got: ${count}`);
+    }
+    this.#count = count;
+  }
+
+  /** Remaining count; 0 once the latch is open. */
+  get count(): number {
+    return this.#count;
+  }
+
+  /** Decrements the count (never below 0); when it reaches 0, every waiter resolves. */
+  countDown(): void {
+    if (this.#count === 0) return;
+    this.#count--;
+    if (this.#count === 0) {
+      for (const w of this.#waiters.splice(0)) w.resolve();
+    }
+  }
+
+  /** Resolves once the count reaches 0 (immediately if it already has). Rejects with the signal's reason if it aborts first. */
+  wait(signal?: AbortSignal): Promise<void> {
+    if (this.#count === 0) return Promise.resolve();
+    return wait(this.#waiters, signal);
+  }
+}
+
+/**
+ * Cyclic barrier for `parties` participants: each {@link Barrier.wait} blocks until `parties` callers are waiting, then
+ * all are released and the barrier resets for the next phase. When a waiting participant's signal aborts (its task
+ * failed or was canceled, aborting the scope), the barrier breaks: every waiter rejects with that reason and later waits
+ * reject with {@link BarrierBrokenError} until {@link Barrier.reset}.
+ */
+export class Barrier {
+  readonly #parties: number;
+  #waiters: Waiter<number>[] = [];
+  #broken = false;
+
+  constructor(parties: number) {
+    if (typeof parties !== "number" || parties < 1 || Math.floor(parties) !== parties) {
+      throw new Error(`Barrier parties must be an integer >= 1, got: ${parties}`);
+    }
+    this.#parties = parties;
+  }
+
+  /** Number of participants needed to trip the barrier. */
+  get parties(): number {
+    return this.#parties;
+  }
+
+  /** Number of participants currently waiting. */
+  get waiting(): number {
+    return this.#waiters.length;
+  }
+
+  /** True once a waiting participant was canceled, until {@link Barrier.reset}. */
+  get broken(): boolean {
+    return this.#broken;
+  }
+
+  /**
+   * Waits until `parties` participants have called wait. Resolves with the arrival index (0 for the first arrival).
+   * Pass the participant task's or scope's signal so its cancellation breaks the barrier for everyone.
+   */
+  wait(signal?: AbortSignal): Promise<number> {
+    if (this.#broken) return Promise.reject(new BarrierBrokenError());
+    const index = this.#waiters.length;
+    const waiters = this.#waiters;
+    const promise = wait(waiters, signal, (reason) => this.#break(waiters, reason));
+    if (!this.#broken && waiters.length === this.#parties) {
+      this.#waiters = [];
+      waiters.forEach((w, i) => w.resolve(i));
+    }
+    return promise.then(() => index);
+  }
+
+  /** Rejects current waiters with {@link BarrierBrokenError} and makes the barrier usable again. */
+  reset(): void {
+    const waiters = this.#waiters;
+    this.#waiters = [];
+    this.#broken = false;
+    for (const w of waiters) w.reject(new BarrierBrokenError("Barrier was reset"));
+  }
+
+  #break(waiters: Waiter<number>[], reason: unknown): void {
+    if (waiters !== this.#waiters) return;
+    this.#broken = true;
+    this.#waiters = [];
+    for (const w of waiters) w.reject(reason);
+  }
+}
+
+/**
+ * Event that stays signaled once {@link ManualResetEvent.set} is called, releasing all current and later waiters,
+ * until {@link ManualResetEvent.reset}.
+ */
+export class ManualResetEvent {
+  #isSet: boolean;
+  readonly #waiters: Waiter<void>[] = [];
+
+  constructor(initiallySet = false) {
+    this.#isSet = initiallySet;
+  }
+
+  /** True while the event is signaled. */
+  get isSet(): boolean {
+    return this.#isSet;
+  }
+
+  /** Signals the event and resolves every waiter. */
+  set(): void {
+    this.#isSet = true;
+    for (const w of this.#waiters.splice(0)) w.resolve();
+  }
+
+  /** Returns the event to the non-signaled state; later waits block until the next set. */
+  reset(): void {
+    this.#isSet = false;
+  }
+
+  /** Resolves when the event is signaled (immediately if it is). Rejects with the signal's reason if it aborts first. */
+  wait(signal?: AbortSignal): Promise<void> {
+    if (this.#isSet) return Promise.resolve();
+    return wait(this.#waiters, signal);
+  }
+}
+
+/**
+ * Write-once value: {@link OneShot.set} delivers a value to every current and later waiter. Only the first set wins.
+ */
+export class OneShot<T> {
+  #state: { set: false } | { set: true; value: T } = { set: false };
+  readonly #waiters: Waiter<T>[] = [];
+
+  /** True once a value was set. */
+  get isSet(): boolean {
+    return this.#state.set;
+  }
+
+  /** Sets the value and resolves every waiter. Returns false (and changes nothing) if a value was already set. */
+  set(value: T): boolean {
+    if (this.#state.set) return false;
+    this.#state = { set: true, value };
+    for (const w of this.#waiters.splice(0)) w.resolve(value);
+    return true;
+  }
+
+  /** Resolves with the value once set (immediately if it is). Rejects with the signal's reason if it aborts first. */
+  wait(signal?: AbortSignal): Promise<T> {
+    if (this.#state.set) return Promise.resolve(this.#state.value);
+    return wait(this.#waiters, signal);
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import type { TaskStatus } from "./task.js";
+import type { CircuitState } from "./circuit-breaker.js";
 
 /**
  * Pluggable logger for task-debug output. Implement this interface and pass
@@ -29,15 +30,24 @@ export type TaskDebugEvent =
       taskId: number;
       name?: string;
       parentScopeId?: number;
+      /** Initial status; "created" for lazy tasks that have not started yet. Omitted means "running". */
+      status?: TaskStatus;
     }
   | {
       kind: "taskUpdated";
       taskId: number;
       status: TaskStatus;
       timing?: { startTime?: number; endTime?: number };
+    }
+  | {
+      /** A circuit breaker changed state (see createCircuitBreaker); not part of the task tree. */
+      kind: "circuitStateChanged";
+      name?: string;
+      from: CircuitState;
+      to: CircuitState;
     };
 
-export type ScopeType = "sync" | "race" | "rush" | "branch" | "spawn";
+export type ScopeType = "sync" | "race" | "any" | "quorum" | "rush" | "branch" | "spawn" | "supervise";
 
 type TaskDebugSubscriber = (event: TaskDebugEvent) => void;
 
@@ -122,6 +132,7 @@ export class TaskloomDebugger {
     const node = this.#mirrorTaskById.get(event.taskId);
     if (node) {
       node.status = event.status;
+      if (event.timing?.startTime) node.startTime = event.timing.startTime;
       if (event.timing?.endTime) node.endTime = event.timing.endTime;
     }
     if (this.#detachedRoot && this.#allTasksComplete(this.#detachedRoot)) return "print";
@@ -144,12 +155,15 @@ export class TaskloomDebugger {
       }
       return "return";
     }
+    if (event.kind === "circuitStateChanged") {
+      return "return";
+    }
     if (event.kind === "taskRegistered") {
       const parent = this.#mirrorStack.at(-1);
       const node: MirrorTask = {
         id: event.taskId,
         name: event.name,
-        status: "running",
+        status: event.status ?? "running",
         startTime: Date.now(),
       };
       this.#mirrorTaskById.set(event.taskId, node);
@@ -162,7 +176,7 @@ export class TaskloomDebugger {
   #allTasksComplete(scope: MirrorScope): boolean {
     for (const child of scope.children) {
       if ("status" in child) {
-        if (child.status === "running") return false;
+        if (child.status === "running" || child.status === "created") return false;
       } else if (!this.#allTasksComplete(child)) {
         return false;
       }
@@ -362,13 +376,13 @@ export class TaskloomDebugger {
     }
   }
 
-  registerTask(name?: string): number | undefined {
+  registerTask(name?: string, status: TaskStatus = "running"): number | undefined {
     if (!this.#debugEnabled) return undefined;
     const id = ++this.#nextTaskId;
     const node: TaskNode = {
       id,
       name,
-      status: "running",
+      status,
       startTime: Date.now(),
     };
     this.#taskIdToNode.set(id, node);
@@ -380,6 +394,7 @@ export class TaskloomDebugger {
         taskId: id,
         name,
         parentScopeId: scope?.id,
+        ...(status !== "running" && { status }),
       });
     }
     return id;
@@ -388,10 +403,13 @@ export class TaskloomDebugger {
   updateTask(taskId: number | undefined, status: TaskStatus): void {
     if (taskId === undefined || !this.#debugEnabled) return;
     const node = this.#taskIdToNode.get(taskId);
-    const endTime = Date.now();
+    const now = Date.now();
+    // A lazy task moving from "created" to "running" starts its clock; any other update settles it.
+    const started = status === "running";
     if (node) {
       node.status = status;
-      node.endTime = endTime;
+      if (started) node.startTime = now;
+      else node.endTime = now;
     }
     if (this.#subscribers?.length) {
       this.#emitTaskDebugEvent({
@@ -400,10 +418,20 @@ export class TaskloomDebugger {
         status,
         timing: node
           ? { startTime: node.startTime, endTime: node.endTime }
-          : { endTime },
+          : started
+            ? { startTime: now }
+            : { endTime: now },
       });
     }
   }
+
+  circuitStateChanged(name: string | undefined, from: CircuitState, to: CircuitState): void {
+    if (!this.#debugEnabled) return;
+    this.#sink("debug", `circuit${name ? ` ${name}` : ""}: ${from} -> ${to}`);
+    if (this.#subscribers?.length) {
+      this.#emitTaskDebugEvent({ kind: "circuitStateChanged", ...(name && { name }), from, to });
+    }
+  }
 }
 
 const defaultDebugger = new TaskloomDebugger();
@@ -459,8 +487,8 @@ export function popScope(): void {
   defaultDebugger.popScope();
 }
 
-export function registerTask(name?: string): number | undefined {
-  return defaultDebugger.registerTask(name);
+export function registerTask(name?: string, status?: TaskStatus): number | undefined {
+  return defaultDebugger.registerTask(name, status);
 }
 
 export function updateTask(
@@ -469,3 +497,7 @@ export function updateTask(
 ): void {
   defaultDebugger.updateTask(taskId, status);
 }
+
+export function circuitStateChanged(name: string | undefined, from: CircuitState, to: CircuitState): void {
+  defaultDebugger.circuitStateChanged(name, from, to);
+}
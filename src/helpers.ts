@@ -1,8 +1,13 @@
 /**
- * Opinionated dev helpers: sleep, timeout, retry. Use only Node built-ins; respect AbortSignal and scope.
+ * Opinionated dev helpers: sleep, timeout, retry, hedge. Use only Node built-ins; respect AbortSignal and scope.
  */
 
-import type { CancelReason } from "./task.js";
+import {
+  runTask,
+  type CancelReason,
+  type Task,
+  type TaskLifecycleHook,
+} from "./task.js";
 import {
   getCurrentScopeStorage,
   getScopeDeadlineRemainingMs,
@@ -108,40 +113,186 @@ export async function runWithTimeout<T>(
   }
 }
 
+/** Value or function whose result is returned instead of rejecting when a task-level timeout expires. */
+export type TimeoutFallback<T> = T | (() => T | PromiseLike<T>);
+
+/**
+ * Options for task.timeout.
+ * @property scope - 'scope' (default): expiry aborts the whole scope. 'task': expiry cancels only the timed work,
+ * through its own signal, and siblings keep running
+ * @property fallback - Only with scope 'task': value (or function producing it) returned on expiry instead of rejecting
+ */
+export type TimeoutOptions<T> = { scope?: "scope" } | { scope: "task"; fallback?: TimeoutFallback<T> };
+
+/**
+ * Runs work with the current scope storage's deadline set to `ms` from now, so nested helpers (retry, hedge, timeout)
+ * see the time budget. Outside any scope, runs work as is.
+ * @internal
+ */
+export function runWithDeadline<T>(ms: number, work: () => Promise<T>): Promise<T> {
+  const store = getCurrentScopeStorage();
+  return store != null ? runWithScopeStorage({ ...store, deadlineMs: Date.now() + ms }, work) : work();
+}
+
+/**
+ * Runs async work with a time limit that cancels only that work: on expiry its signal (linked to `signal`) is aborted
+ * with `{ type: "timeout", ms }` and the Promise returns the fallback, or rejects with a TimeoutError when there is none.
+ * The scope is not aborted. Nested helpers see the capped budget as the scope deadline, as with {@link runWithTimeout}.
+ * @param ms - Time limit in milliseconds
+ * @param work - Async work to run; receives a signal aborted on expiry or when `signal` aborts
+ * @param signal - AbortSignal of the owner (e.g. scope.signal or the task's signal)
+ * @param options - Optional fallback; the `"fallback" in options` check allows `undefined` as a fallback value
+ * @returns Promise with the work result, the fallback on expiry, or rejects on timeout/abort
+ */
+export async function runWithWorkTimeout<T>(
+  ms: number,
+  work: (signal: AbortSignal) => Promise<T>,
+  signal: AbortSignal,
+  options: { fallback?: TimeoutFallback<T> } = {},
+): Promise<T> {
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+  const remainingMs = getScopeDeadlineRemainingMs();
+  const effectiveMs = remainingMs !== undefined ? Math.min(ms, remainingMs) : ms;
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined = undefined;
+  const onAbort = (): void => {
+    if (timeoutId !== undefined) clearTimeout(timeoutId);
+    controller.abort(signal.reason);
+  };
+  signal.addEventListener("abort", onAbort, { once: true });
+
+  const timeoutPromise = new Promise<"timeout">((resolve) => {
+    timeoutId = setTimeout(() => {
+      controller.abort({ type: "timeout", ms: effectiveMs });
+      resolve("timeout");
+    }, effectiveMs);
+  });
+
+  try {
+    const workPromise = runWithDeadline(effectiveMs, () => work(controller.signal));
+    const outcome = await Promise.race([workPromise.then((value) => ({ value })), timeoutPromise]);
+    if (outcome !== "timeout") return outcome.value;
+    workPromise.catch(() => {});
+    if ("fallback" in options) {
+      const { fallback } = options;
+      return typeof fallback === "function" ? await (fallback as () => T | PromiseLike<T>)() : (fallback as T);
+    }
+    const timeoutError = new Error(`Timeout after ${effectiveMs} ms`);
+    (timeoutError as { name?: string }).name = "TimeoutError";
+    throw timeoutError;
+  } finally {
+    if (timeoutId !== undefined) clearTimeout(timeoutId);
+    signal.removeEventListener("abort", onAbort);
+  }
+}
+
 /**
  * Factory for task.timeout: returns a function that runs work with a time limit.
- * Bound to the current scope so that on expiry the scope is aborted and children are canceled.
+ * Bound to the current scope so that on expiry the scope is aborted and children are canceled,
+ * or, with `{ scope: "task" }`, only the timed work is canceled.
  */
 export function createTimeout(
   scope: ScopeLike,
   signal: AbortSignal,
-): <T>(ms: number, work: (signal: AbortSignal) => Promise<T>) => Promise<T> {
-  return <T>(ms: number, work: (signal: AbortSignal) => Promise<T>): Promise<T> =>
-    runWithTimeout(ms, work, scope, signal);
+): <T>(ms: number, work: (signal: AbortSignal) => Promise<T>, options?: TimeoutOptions<T>) => Promise<T> {
+  return <T>(ms: number, work: (signal: AbortSignal) => Promise<T>, options?: TimeoutOptions<T>): Promise<T> =>
+    options?.scope === "task"
+      ? runWithWorkTimeout(ms, work, signal, options)
+      : runWithTimeout(ms, work, scope, signal);
 }
 
-/** Backoff strategy between retry attempts: fixed delay or exponential. */
-export type RetryBackoff = "fixed" | "exponential";
+/**
+ * Backoff strategy between retry attempts: fixed delay, exponential, or a function returning the delay in ms
+ * for the given attempt (1 for the first failure) and the error that attempt failed with.
+ */
+export type RetryBackoff = "fixed" | "exponential" | ((attempt: number, error: unknown) => number);
+
+/**
+ * Randomization applied to each retry delay `d` so that many callers do not retry in lockstep.
+ * - 'none': exactly `d`
+ * - 'full': random in [0, d]
+ * - 'equal': d/2 plus random in [0, d/2]
+ * - 'decorrelated': random in [initialDelayMs, previous delay * 3]; replaces the backoff growth (AWS "decorrelated jitter")
+ */
+export type RetryJitter = "none" | "full" | "equal" | "decorrelated";
 
 /**
  * Options for task.retry. All attempts run in the same scope; scope abort stops retries and rejects.
  * @property retries - Number of retry attempts after the first failure (total attempts = 1 + retries)
- * @property backoff - 'fixed' (same delay each time) or 'exponential' (delay doubles each time)
+ * @property backoff - 'fixed' (same delay each time), 'exponential' (delay doubles each time) or `(attempt, error) => ms`
  * @property initialDelayMs - Delay in ms before first retry; also base for fixed backoff (default 50)
+ * @property maxDelayMs - Upper bound for every delay, applied after backoff and jitter
+ * @property jitter - Randomization of each delay (default 'none'); see {@link RetryJitter}
+ * @property retryIf - Decides whether the error of a failed attempt (1-based) is retried. Default: every error except
+ * cancellation reasons (a {@link CancelReason} thrown by canceled nested work)
+ * @property attemptTimeoutMs - Time limit per attempt. On expiry the attempt's signal is aborted with a timeout reason and
+ * the attempt fails with a TimeoutError (retried like any other error); the scope is not aborted
+ * @property onRetry - Called before waiting for the next attempt with the failed attempt, its error and the delay
  */
 export type RetryOptions = {
   retries: number;
   backoff?: RetryBackoff;
   initialDelayMs?: number;
+  maxDelayMs?: number;
+  jitter?: RetryJitter;
+  retryIf?: (error: unknown, attempt: number) => boolean;
+  attemptTimeoutMs?: number;
+  onRetry?: (info: { attempt: number; error: unknown; delayMs: number }) => void;
 };
 
 const DEFAULT_INITIAL_DELAY_MS = 50;
 
+const CANCEL_REASON_TYPES = new Set(["timeout", "user-abort", "scope-closed", "parent-canceled", "restart"]);
+
+/** True for {@link CancelReason} objects, which canceled tasks reject with. */
+function isCancelReason(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    !(error instanceof Error) &&
+    CANCEL_REASON_TYPES.has((error as { type?: unknown }).type as string)
+  );
+}
+
+/**
+ * Runs one attempt with its own signal, aborted with a timeout reason after `ms` (and when the parent signal aborts).
+ * Rejects with a TimeoutError on expiry even if the work ignores its signal.
+ */
+async function runAttemptWithTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  signal: AbortSignal,
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = (): void => controller.abort(signal.reason);
+  signal.addEventListener("abort", onAbort, { once: true });
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      const timeoutError = new Error(`Attempt timed out after ${ms} ms`);
+      timeoutError.name = "TimeoutError";
+      controller.abort({ type: "timeout", ms });
+      reject(timeoutError);
+    }, ms);
+  });
+  try {
+    return await Promise.race([fn(controller.signal), timeoutPromise]);
+  } finally {
+    clearTimeout(timeoutId);
+    signal.removeEventListener("abort", onAbort);
+  }
+}
+
 /**
  * Runs async work with retries. On failure, retries up to options.retries times with optional backoff between attempts.
  * Respects the scope's AbortSignal: if aborted during a delay or attempt, stops and rejects with the signal's reason.
+ * Errors rejected by `retryIf` are rethrown immediately. When the scope has a deadline (e.g. inside task.timeout) and the
+ * remaining budget cannot fit the next delay, retrying stops and the last error is rethrown.
  * @param fn - Async function to run (attempted until success or retries exhausted); receives the scope signal on each attempt
- * @param options - RetryOptions (retries, backoff, optional initialDelayMs)
+ * (or a per-attempt signal when attemptTimeoutMs is set)
+ * @param options - RetryOptions (retries, backoff, jitter, retryIf, attemptTimeoutMs, ...)
  * @param signal - AbortSignal; when aborted, retry stops and rejects
  * @returns Promise with the first successful result, or rejects with last error / signal reason
  */
@@ -150,23 +301,54 @@ export async function retry<T>(
   options: RetryOptions,
   signal: AbortSignal,
 ): Promise<T> {
-  const { retries: maxRetries, backoff = "fixed", initialDelayMs = DEFAULT_INITIAL_DELAY_MS } = options;
+  const {
+    retries: maxRetries,
+    backoff = "fixed",
+    initialDelayMs = DEFAULT_INITIAL_DELAY_MS,
+    maxDelayMs = Infinity,
+    jitter = "none",
+    retryIf = (error: unknown) => !isCancelReason(error),
+    attemptTimeoutMs,
+    onRetry,
+  } = options;
+  // Read the deadline up front: the scope storage is not guaranteed to survive the awaits below.
+  const deadlineMs = getCurrentScopeStorage()?.deadlineMs;
   let lastError: unknown;
+  let previousDelayMs = initialDelayMs;
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     if (signal.aborted) {
       throw signal.reason;
     }
     try {
-      return await fn(signal);
+      return attemptTimeoutMs !== undefined
+        ? await runAttemptWithTimeout(fn, attemptTimeoutMs, signal)
+        : await fn(signal);
     } catch (e) {
       lastError = e;
-      if (attempt === maxRetries) {
+      if (attempt === maxRetries || signal.aborted || !retryIf(e, attempt + 1)) {
         throw e;
       }
-      const delayMs =
-        backoff === "exponential"
-          ? initialDelayMs * Math.pow(2, attempt)
-          : initialDelayMs;
+      const baseMs =
+        typeof backoff === "function"
+          ? backoff(attempt + 1, e)
+          : backoff === "exponential"
+            ? initialDelayMs * Math.pow(2, attempt)
+            : initialDelayMs;
+      const cappedMs = Math.min(baseMs, maxDelayMs);
+      const jitteredMs =
+        jitter === "full"
+          ? Math.random() * cappedMs
+          : jitter === "equal"
+            ? cappedMs / 2 + Math.random() * (cappedMs / 2)
+            : jitter === "decorrelated"
+              ? initialDelayMs + Math.random() * (previousDelayMs * 3 - initialDelayMs)
+              : cappedMs;
+      const delayMs = Math.max(0, Math.min(jitteredMs, maxDelayMs));
+      previousDelayMs = delayMs;
+      if (deadlineMs !== undefined && deadlineMs - Date.now() < delayMs) {
+        throw e;
+      }
+      onRetry?.({ attempt: attempt + 1, error: e, delayMs });
       await sleep(delayMs, signal);
     }
   }
@@ -185,83 +367,118 @@ export function createRetry(signal: AbortSignal): <T>(
     retry(fn, options, signal);
 }
 
-/** Options for the concurrency limiter. */
-export type LimiterOptions = {
-  /** Maximum number of concurrent executions (required, must be >= 1). */
-  concurrency: number;
-  /** When true (default), queued work is rejected when the scope's signal aborts. */
-  cancelQueuedOnAbort?: boolean;
+/**
+ * Options for task.hedge.
+ * @property delayMs - How long an attempt may run unsettled before a duplicate attempt is started
+ * @property maxHedges - Maximum number of duplicate attempts on top of the first one (default 1)
+ * @property name - Base name for attempt tasks; attempts are named `${name}#0`, `${name}#1`, ... (default "hedge")
+ * @property lifecycleHooks - Hooks invoked for every attempt task; the winner gets onTaskComplete, the others onTaskCancel
+ */
+export type HedgeOptions = {
+  delayMs: number;
+  maxHedges?: number;
+  name?: string;
+  lifecycleHooks?: TaskLifecycleHook | TaskLifecycleHook[];
 };
 
-/** A limiter function: accepts work(signal) => Promise<T> and returns Promise<T>. */
-export type Limiter = <T>(work: (signal: AbortSignal) => Promise<T>) => Promise<T>;
+const DEFAULT_MAX_HEDGES = 1;
 
 /**
- * Creates a concurrency limiter bound to the given AbortSignal. Validates concurrency >= 1 (throws synchronously otherwise).
- * Uses a FIFO queue; when signal aborts, queued work is rejected if cancelQueuedOnAbort is true (default).
- * Running work receives the same signal. If the signal is already aborted when the limiter is invoked, the returned Promise rejects immediately without running work.
- *
- * @param signal - AbortSignal (e.g. scope.signal); when aborted, queued work is rejected (when cancelQueuedOnAbort) and running work receives it
- * @param options - concurrency (required), cancelQueuedOnAbort (optional, default true)
- * @returns A limiter function that accepts work(signal) => Promise<T> and returns Promise<T>
+ * Runs async work with hedged (duplicate) attempts to cut tail latency. The first attempt starts immediately; each time
+ * the attempts in flight have not settled after `delayMs`, another attempt is started, up to `maxHedges` extra attempts.
+ * A failed attempt starts the next hedge right away. The first success wins and the other attempts are canceled through
+ * their own task signals. Each attempt is a Task bound to `signal`, so lifecycle hooks report which attempt won.
+ * When the current scope has a deadline (see runWithTimeout), no hedge is scheduled if the remaining budget is smaller than `delayMs`.
+ * @param work - Async work to run; each attempt receives its own AbortSignal
+ * @param options - HedgeOptions (delayMs, optional maxHedges, name, lifecycleHooks)
+ * @param signal - AbortSignal (e.g. scope.signal); when aborted, all attempts are canceled and the Promise rejects with its reason
+ * @returns Promise with the first successful result, or rejects with the last error once every attempt has failed
  */
-export function createLimiter(signal: AbortSignal, options: LimiterOptions): Limiter {
-  const { concurrency, cancelQueuedOnAbort = true } = options;
-  if (typeof concurrency !== "number" || concurrency < 1 || Math.floor(concurrency) !== concurrency) {
-    throw new Error(`Concurrency must be an integer >= 1, got: ${concurrency}`);
+export function hedge<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  options: HedgeOptions,
+  signal: AbortSignal,
+): Promise<T> {
+  const { delayMs, maxHedges = DEFAULT_MAX_HEDGES, name = "hedge", lifecycleHooks } = options;
+  if (typeof delayMs !== "number" || delayMs < 0) {
+    throw new Error(`Hedge delayMs must be a number >= 0, got: ${delayMs}`);
   }
-  type QueueItem<T> = {
-    work: (signal: AbortSignal) => Promise<T>;
-    resolve: (value: T) => void;
-    reject: (reason: unknown) => void;
-  };
-  const queue: QueueItem<unknown>[] = [];
-  let active = 0;
-
-  function runNext(): void {
-    if (active >= concurrency || queue.length === 0) return;
-    if (signal.aborted && cancelQueuedOnAbort) {
-      const reason = signal.reason;
-      while (queue.length > 0) {
-        const item = queue.shift()!;
-        item.reject(reason);
-      }
-      return;
-    }
-    const item = queue.shift()!;
-    active++;
-    Promise.resolve(item.work(signal))
-      .then(
+  if (typeof maxHedges !== "number" || maxHedges < 0 || Math.floor(maxHedges) !== maxHedges) {
+    throw new Error(`maxHedges must be an integer >= 0, got: ${maxHedges}`);
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  // Read once: timer and settlement callbacks run outside the scope storage.
+  const deadlineMs = getCurrentScopeStorage()?.deadlineMs;
+  return new Promise<T>((resolve, reject) => {
+    const attempts: Task<T>[] = [];
+    let inFlight = 0;
+    let settled = false;
+    let timerId: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (): void => {
+      settled = true;
+      clearTimeout(timerId);
+      signal.removeEventListener("abort", onAbort);
+      for (const attempt of attempts) attempt.cancel();
+    };
+    const onAbort = (): void => {
+      if (settled) return;
+      finish();
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort);
+
+    const hedgesLeft = (): boolean => attempts.length <= maxHedges;
+
+    const scheduleHedge = (): void => {
+      clearTimeout(timerId);
+      if (!hedgesLeft()) return;
+      if (deadlineMs !== undefined && deadlineMs - Date.now() < delayMs) return;
+      timerId = setTimeout(launch, delayMs);
+    };
+
+    function launch(): void {
+      const attempt = runTask(work, {
+        signal,
+        name: `${name}#${attempts.length}`,
+        ...(lifecycleHooks && { lifecycleHooks }),
+      });
+      attempts.push(attempt);
+      inFlight++;
+      attempt.then(
         (value) => {
-          item.resolve(value);
+          if (settled) return;
+          finish();
+          resolve(value);
         },
         (err) => {
-          item.reject(err);
+          inFlight--;
+          if (settled) return;
+          if (hedgesLeft()) {
+            launch();
+          } else if (inFlight === 0) {
+            finish();
+            reject(err);
+          }
         },
-      )
-      .finally(() => {
-        active--;
-        runNext();
-      });
-  }
+      );
+      scheduleHedge();
+    }
 
-  if (cancelQueuedOnAbort) {
-    signal.addEventListener("abort", () => {
-      const reason = signal.reason;
-      while (queue.length > 0) {
-        const item = queue.shift()!;
-        item.reject(reason);
-      }
-    });
-  }
+    launch();
+  });
+}
 
-  return function limit<T>(work: (signal: AbortSignal) => Promise<T>): Promise<T> {
-    if (signal.aborted) {
-      return Promise.reject(signal.reason);
-    }
-    return new Promise<T>((resolve, reject) => {
-      queue.push({ work, resolve, reject } as QueueItem<unknown>);
-      runNext();
-    });
-  };
+/**
+ * Factory for task.hedge: returns a function that runs hedged work bound to the current scope's signal,
+ * so scope cancellation cancels every attempt.
+ */
+export function createHedge(signal: AbortSignal): <T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  options: HedgeOptions,
+) => Promise<T> {
+  return <T>(work: (signal: AbortSignal) => Promise<T>, options: HedgeOptions): Promise<T> =>
+    hedge(work, options, signal);
 }
@@ -19,20 +19,89 @@ export {
 export {
   sync,
   race,
+  any,
+  quorum,
   rush,
   branch,
   spawn,
   spawnScope,
+  supervise,
   type TaskloomContext,
   type SyncCallback,
+  type QuorumResult,
+  type SupervisorStrategy,
+  type SupervisorOptions,
   type TaskOptions,
   type UnwrapTasks,
   type SettledTasks,
   type RetryOptions,
   type RetryBackoff,
+  type RetryJitter,
+  type TimeoutOptions,
+  type TimeoutFallback,
+  type HedgeOptions,
   createLimiter,
+  createKeyedLimiter,
+  createRateLimiter,
+  QueueFullError,
   type LimiterOptions,
+  type LimitOptions,
+  type AdaptiveLimiterOptions,
+  type Limiter,
+  type LimiterStats,
+  type KeyedLimiterOptions,
+  type KeyedLimiter,
+  type RateLimiterOptions,
+  type RateLimiter,
+  type MapOptions,
+  type MapFn,
+  type ForEachOptions,
+  createBatcher,
+  type BatcherOptions,
+  type BatchFn,
+  type Batcher,
+  type Schedule,
+  type ScheduleOptions,
+  type ScheduleOverlap,
+  type EveryOptions,
+  type CronOptions,
+  type CronExpression,
 } from "./primitives.js";
+export {
+  createChannel,
+  ChannelClosedError,
+  type Channel,
+  type ChannelOptions,
+} from "./channel.js";
+export {
+  Mutex,
+  Semaphore,
+  RWLock,
+  type LockHandle,
+} from "./locks.js";
+export {
+  createCircuitBreaker,
+  CircuitOpenError,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitState,
+} from "./circuit-breaker.js";
+export { definePolicy, type Policy, type PolicyOptions } from "./policy.js";
+export { singleFlight, type SingleFlightOptions } from "./single-flight.js";
+export { createTaskCache, type TaskCache, type TaskCacheOptions } from "./cache.js";
+export { parseCron } from "./schedule.js";
+export {
+  CountDownLatch,
+  Barrier,
+  BarrierBrokenError,
+  ManualResetEvent,
+  OneShot,
+} from "./coordination.js";
+export {
+  type SelectCase,
+  type SelectCases,
+  type SelectResult,
+} from "./select.js";
 export {
   enableTaskDebug,
   subscribeTaskDebug,
@@ -0,0 +1,316 @@
+/**
+ * Parallel iteration – task.map and task.forEach run a function over iterables and async iterables with bounded
+ * concurrency, one named child task per item, pulling items lazily so huge or endless sources are never buffered.
+ */
+
+import { runTask, type Task, type TaskLifecycleHook } from "./task.js";
+
+/**
+ * Options for task.map.
+ * @property concurrency - Max items in flight (integer >= 1 or Infinity; default Infinity). Items are pulled from the
+ * source only when a slot is free
+ * @property stopOnError - On the first failure, stop pulling items, cancel the items in flight and reject with that
+ * error (default true). With false, every item runs and the map rejects with an AggregateError of all failures
+ * @property settle - Never reject for item failures; resolve with a PromiseSettledResult per item instead
+ * @property name - Base name of the item tasks; items are named `${name}[${index}]` (default "map")
+ * @property lifecycleHooks - Hooks invoked for every item task
+ */
+export type MapOptions = {
+  concurrency?: number;
+  stopOnError?: boolean;
+  settle?: boolean;
+  name?: string;
+  lifecycleHooks?: TaskLifecycleHook | TaskLifecycleHook[];
+};
+
+/** Function task.map runs per item; receives the item, the item task's AbortSignal and the item's index. */
+export type MapFn<I, R> = (item: I, signal: AbortSignal, index: number) => Promise<R>;
+
+/** Validates a concurrency option: an integer >= 1, or Infinity. */
+function checkConcurrency(label: string, concurrency: number): void {
+  if (
+    typeof concurrency !== "number" ||
+    concurrency < 1 ||
+    (concurrency !== Infinity && Math.floor(concurrency) !== concurrency)
+  ) {
+    throw new Error(`${label} concurrency must be an integer >= 1 or Infinity, got: ${concurrency}`);
+  }
+}
+
+/** Returns an iterator over a sync or async iterable. */
+function iteratorOf<I>(items: Iterable<I> | AsyncIterable<I>): Iterator<I> | AsyncIterator<I> {
+  return Symbol.asyncIterator in items
+    ? (items as AsyncIterable<I>)[Symbol.asyncIterator]()
+    : (items as Iterable<I>)[Symbol.iterator]();
+}
+
+/** Resolves with promise, or rejects with signal's reason if it aborts first. */
+function untilAborted<T>(promise: T | PromiseLike<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    Promise.resolve(promise).then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err: unknown) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      },
+    );
+  });
+}
+
+/**
+ * Runs fn over items with at most `concurrency` items in flight, each as a child task named `${name}[${index}]` bound to
+ * `signal`. Results keep input order. Items are pulled lazily from iterables and async iterables; the source iterator is
+ * closed (`return()`) when the map stops early.
+ * By default the first failure stops the map: no more items are pulled, items in flight are canceled and the Promise
+ * rejects with that error. See {@link MapOptions} for stopOnError and settle.
+ * @param items - Iterable or async iterable of inputs
+ * @param fn - Async function per item (item, signal, index)
+ * @param options - MapOptions (concurrency, stopOnError, settle, name, lifecycleHooks)
+ * @param signal - AbortSignal (e.g. scope.signal); when aborted, items in flight are canceled and the Promise rejects with its reason
+ */
+export async function map<I, R>(
+  items: Iterable<I> | AsyncIterable<I>,
+  fn: MapFn<I, R>,
+  options: MapOptions,
+  signal: AbortSignal,
+): Promise<R[] | PromiseSettledResult<R>[]> {
+  const { concurrency = Infinity, stopOnError = true, settle = false, name = "map", lifecycleHooks } = options;
+  checkConcurrency("task.map", concurrency);
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+
+  const results: (R | PromiseSettledResult<R>)[] = [];
+  const failures: { index: number; error: unknown }[] = [];
+  const running = new Set<Task<R>>();
+  const pending: Promise<void>[] = [];
+  // Aborted when the scope aborts or the map stops on a failure, to stop waiting on the source.
+  const stop = new AbortController();
+  const onAbort = (): void => stop.abort(signal.reason);
+  signal.addEventListener("abort", onAbort, { once: true });
+  let slotFreed: (() => void) | undefined;
+
+  const fail = (index: number, error: unknown): void => {
+    failures.push({ index, error });
+    if (!stopOnError || stop.signal.aborted) return;
+    stop.abort(error);
+    for (const t of running) t.cancel();
+  };
+
+  const runItem = async (item: I, index: number): Promise<void> => {
+    const t = runTask((taskSignal) => fn(item, taskSignal, index), {
+      signal,
+      name: `${name}[${index}]`,
+      ...(lifecycleHooks && { lifecycleHooks }),
+    });
+    running.add(t);
+    try {
+      const value = await t;
+      results[index] = settle ? { status: "fulfilled", value } : value;
+    } catch (error) {
+      if (settle) {
+        results[index] = { status: "rejected", reason: error };
+      } else if (!signal.aborted) {
+        fail(index, error);
+      }
+    } finally {
+      running.delete(t);
+      slotFreed?.();
+    }
+  };
+
+  const iterator = iteratorOf(items);
+  let exhausted = false;
+  let sourceError: { error: unknown } | undefined;
+  try {
+    for (let index = 0; !stop.signal.aborted; index++) {
+      while (running.size >= concurrency && !stop.signal.aborted) {
+        await new Promise<void>((resolve) => (slotFreed = resolve));
+      }
+      if (stop.signal.aborted) break;
+      const next = await untilAborted(iterator.next(), stop.signal);
+      if (next.done) {
+        exhausted = true;
+        break;
+      }
+      if (stop.signal.aborted) break;
+      pending.push(runItem(next.value, index));
+    }
+  } catch (err) {
+    // A failing source stops the map like a failing item (even with settle); an abort is handled below.
+    if (!stop.signal.aborted) {
+      exhausted = true;
+      sourceError = { error: err };
+      stop.abort(err);
+      for (const t of running) t.cancel();
+    }
+  } finally {
+    if (!exhausted) void Promise.resolve(iterator.return?.()).catch(() => {});
+    await Promise.all(pending);
+    signal.removeEventListener("abort", onAbort);
+  }
+
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+  if (sourceError) {
+    throw sourceError.error;
+  }
+  if (failures.length > 0) {
+    if (stopOnError) throw failures[0].error;
+    failures.sort((a, b) => a.index - b.index);
+    throw new AggregateError(
+      failures.map((f) => f.error),
+      `task.map: ${failures.length} item${failures.length === 1 ? "" : "s"} failed`,
+    );
+  }
+  return results as R[] | PromiseSettledResult<R>[];
+}
+
+/**
+ * Factory for task.map: returns a map bound to the current scope's signal, so scope cancellation cancels every item.
+ */
+export function createMap(signal: AbortSignal): {
+  <I, R>(
+    items: Iterable<I> | AsyncIterable<I>,
+    fn: MapFn<I, R>,
+    options: MapOptions & { settle: true },
+  ): Promise<PromiseSettledResult<R>[]>;
+  <I, R>(items: Iterable<I> | AsyncIterable<I>, fn: MapFn<I, R>, options?: MapOptions): Promise<R[]>;
+} {
+  return <I, R>(items: Iterable<I> | AsyncIterable<I>, fn: MapFn<I, R>, options: MapOptions = {}) =>
+    map(items, fn, options, signal) as Promise<R[]> & Promise<PromiseSettledResult<R>[]>;
+}
+
+/**
+ * Options for task.forEach.
+ * @property concurrency - Max items in flight (integer >= 1 or Infinity; default 1)
+ * @property highWaterMark - Items pulled ahead and buffered while every worker is busy (integer >= 0; default 0, so
+ * the source is pulled only when a worker frees up)
+ * @property name - Name of the forEach task; items are named `${name}[${index}]` (default "forEach")
+ * @property lifecycleHooks - Hooks invoked for every item task
+ */
+export type ForEachOptions = {
+  concurrency?: number;
+  highWaterMark?: number;
+  name?: string;
+  lifecycleHooks?: TaskLifecycleHook | TaskLifecycleHook[];
+};
+
+/**
+ * Validates ForEachOptions (throws synchronously), so task.forEach can reject bad options before starting its task.
+ */
+export function checkForEachOptions(options: ForEachOptions): void {
+  const { concurrency = 1, highWaterMark = 0 } = options;
+  checkConcurrency("task.forEach", concurrency);
+  if (typeof highWaterMark !== "number" || highWaterMark < 0 || Math.floor(highWaterMark) !== highWaterMark) {
+    throw new Error(`task.forEach highWaterMark must be an integer >= 0, got: ${highWaterMark}`);
+  }
+}
+
+/**
+ * Runs fn over items with backpressure: at most `concurrency` items run at once, each as a child task named
+ * `${name}[${index}]` bound to `signal`, and at most `highWaterMark` more are pulled ahead. The first failure cancels
+ * the items in flight, drops buffered items, calls the source's `return()` and rejects with that error; an abort of
+ * `signal` does the same and rejects with its reason.
+ * @param items - Async iterable (or iterable) of inputs, e.g. a Node stream
+ * @param fn - Async function per item (item, signal, index)
+ * @param options - ForEachOptions (concurrency, highWaterMark, name, lifecycleHooks)
+ * @param signal - AbortSignal (e.g. the forEach task's signal)
+ */
+export async function forEach<I>(
+  items: Iterable<I> | AsyncIterable<I>,
+  fn: MapFn<I, unknown>,
+  options: ForEachOptions,
+  signal: AbortSignal,
+): Promise<void> {
+  checkForEachOptions(options);
+  const { concurrency = 1, highWaterMark = 0, name = "forEach", lifecycleHooks } = options;
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+
+  const running = new Set<Task<unknown>>();
+  const buffer: { item: I; index: number }[] = [];
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+  const notify = (): void => {
+    const resolve = wake;
+    wake = undefined;
+    resolve?.();
+  };
+  const waitForChange = (): Promise<void> => new Promise<void>((resolve) => (wake = resolve));
+  // Aborted when the scope aborts or an item fails; stops pulling and closes the source.
+  const stop = new AbortController();
+  const onAbort = (): void => stop.abort(signal.reason);
+  signal.addEventListener("abort", onAbort, { once: true });
+  stop.signal.addEventListener("abort", notify, { once: true });
+
+  const fail = (error: unknown): void => {
+    if (stop.signal.aborted) return;
+    failure = { error };
+    stop.abort(error);
+    buffer.length = 0;
+    for (const t of running) t.cancel();
+  };
+
+  const start = (item: I, index: number): void => {
+    const t = runTask((taskSignal) => fn(item, taskSignal, index), {
+      signal,
+      name: `${name}[${index}]`,
+      ...(lifecycleHooks && { lifecycleHooks }),
+    });
+    running.add(t);
+    t.then(
+      () => {},
+      (error: unknown) => fail(error),
+    ).then(() => {
+      running.delete(t);
+      const next = stop.signal.aborted ? undefined : buffer.shift();
+      if (next) start(next.item, next.index);
+      notify();
+    });
+  };
+
+  const iterator = iteratorOf(items);
+  let exhausted = false;
+  try {
+    for (let index = 0; !stop.signal.aborted; index++) {
+      while (running.size + buffer.length >= concurrency + highWaterMark && !stop.signal.aborted) {
+        await waitForChange();
+      }
+      if (stop.signal.aborted) break;
+      const next = await untilAborted(iterator.next(), stop.signal);
+      if (next.done) {
+        exhausted = true;
+        break;
+      }
+      if (stop.signal.aborted) break;
+      if (running.size < concurrency) start(next.value, index);
+      else buffer.push({ item: next.value, index });
+    }
+  } catch (err) {
+    // A failing source fails the forEach like a failing item; an abort is handled below.
+    if (!stop.signal.aborted) {
+      exhausted = true;
+      fail(err);
+    }
+  } finally {
+    if (!exhausted) void Promise.resolve(iterator.return?.()).catch(() => {});
+    while (running.size > 0) await waitForChange();
+    signal.removeEventListener("abort", onAbort);
+  }
+
+  if (signal.aborted) {
+    throw signal.reason;
+  }
+  if (failure) {
+    throw failure.error;
+  }
+}
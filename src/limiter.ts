@@ -0,0 +1,585 @@
+/**
+ * Concurrency limiter behind task.limit and createLimiter: runs at most `concurrency` permits' worth of work at a time.
+ * Queued work is ordered by priority, aged while it waits so low-priority work is not starved, and FIFO within a priority.
+ * In adaptive mode the limit itself follows the backend's capacity (AIMD on latency and errors).
+ */
+
+/** Options for the concurrency limiter. */
+export type LimiterOptions = {
+  /** Maximum number of concurrent executions (required, must be >= 1). With weights, the number of permits. */
+  concurrency: number;
+  /** When true (default), queued work is rejected when the scope's signal aborts. */
+  cancelQueuedOnAbort?: boolean;
+  /** Waiting time in ms that raises a queued job's priority by 1 (default 1000), so low-priority work is not starved. */
+  agingMs?: number;
+  /** Adaptive mode: `concurrency` is the initial limit, then adjusted from observed latency and errors. */
+  adaptive?: AdaptiveLimiterOptions;
+  /** Maximum number of queued works; further calls that would wait reject with {@link QueueFullError} (default unlimited). */
+  maxQueue?: number;
+};
+
+/**
+ * Error a limiter call rejects with when the work would have to wait but the queue already holds `maxQueue` works.
+ * Lets callers shed load (e.g. answer 503) instead of queueing without bound.
+ */
+export class QueueFullError extends Error {
+  readonly maxQueue: number;
+
+  constructor(maxQueue: number) {
+    super(`Limiter queue is full (maxQueue: ${maxQueue})`);
+    this.name = "QueueFullError";
+    this.maxQueue = maxQueue;
+    Object.setPrototypeOf(this, QueueFullError.prototype);
+  }
+}
+
+/** Snapshot returned by {@link Limiter.stats}. */
+export type LimiterStats = {
+  /** Works currently running. */
+  active: number;
+  /** Works waiting in the queue. */
+  queued: number;
+  /** Works that fulfilled. */
+  completed: number;
+  /** Calls that rejected: failed work, queued work rejected on abort, and QueueFullError. */
+  rejected: number;
+  /** Mean time in ms between a call and the start of its work, over every work started so far (0 before the first). */
+  averageWaitMs: number;
+  /** Current concurrency limit. */
+  concurrency: number;
+};
+
+/**
+ * Adaptive (AIMD) limit control. After each work completes, the limit grows by `increase / limit` (about `increase`
+ * per round of `limit` completions) while latency stays at or under `targetLatencyMs`, and is multiplied by
+ * `decreaseFactor` on an error or a latency spike. Work that started before the last decrease does not cut it again, so
+ * one burst of slow or failing calls costs a single decrease. Completions after the scope signal aborted are ignored.
+ * @property targetLatencyMs - Latency (ms) above which a completion counts as congestion
+ * @property maxConcurrency - Upper bound for the limit (integer >= concurrency)
+ * @property minConcurrency - Lower bound for the limit (integer >= 1, <= concurrency; default 1)
+ * @property increase - Additive increase per round (default 1)
+ * @property decreaseFactor - Multiplicative decrease, between 0 and 1 exclusive (default 0.5)
+ * @property isError - Decides whether a rejection counts as congestion (default: every rejection); other rejections leave the limit unchanged
+ * @property onLimitChange - Called with the new limit whenever it changes (e.g. to export a gauge)
+ */
+export type AdaptiveLimiterOptions = {
+  targetLatencyMs: number;
+  maxConcurrency: number;
+  minConcurrency?: number;
+  increase?: number;
+  decreaseFactor?: number;
+  isError?: (error: unknown) => boolean;
+  onLimitChange?: (limit: number) => void;
+};
+
+/** Per-call options for a {@link Limiter}. */
+export type LimitOptions = {
+  /** Queue priority; higher runs first (default 0). Jobs with equal (aged) priority run in FIFO order. */
+  priority?: number;
+  /** Permits the work holds out of `concurrency` while it runs: an integer from 1 (default) to `concurrency`. */
+  weight?: number;
+};
+
+/** A limiter function: accepts work(signal) => Promise<T> with optional priority and weight, and returns Promise<T>. */
+export type Limiter = {
+  <T>(work: (signal: AbortSignal) => Promise<T>, options?: LimitOptions): Promise<T>;
+  /** Current concurrency limit (moves over time in adaptive mode). */
+  readonly concurrency: number;
+  /** Number of works waiting in the queue. */
+  readonly queueDepth: number;
+  /** Returns a snapshot of the limiter's counters. */
+  stats(): LimiterStats;
+  /**
+   * Changes the concurrency limit at runtime (integer >= 1; within min/maxConcurrency in adaptive mode, where it also
+   * resets the adaptive estimate). Raising it starts queued work right away; lowering it lets running work finish.
+   */
+  setConcurrency(concurrency: number): void;
+  /** Resolves once nothing is running or queued (immediately if the limiter is idle). */
+  drain(): Promise<void>;
+};
+
+const DEFAULT_AGING_MS = 1000;
+
+/** Adds item to a binary heap in which before(a, b) means a comes out first. */
+function heapPush<T>(heap: T[], item: T, before: (a: T, b: T) => boolean): void {
+  let i = heap.push(item) - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (!before(heap[i], heap[parent])) return;
+    [heap[i], heap[parent]] = [heap[parent], heap[i]];
+    i = parent;
+  }
+}
+
+/** Removes and returns the first item of a binary heap built with {@link heapPush}. */
+function heapPop<T>(heap: T[], before: (a: T, b: T) => boolean): T | undefined {
+  const first = heap[0];
+  const last = heap.pop()!;
+  if (heap.length === 0) return first;
+  heap[0] = last;
+  let i = 0;
+  for (;;) {
+    const left = 2 * i + 1;
+    let next = i;
+    if (left < heap.length && before(heap[left], heap[next])) next = left;
+    if (left + 1 < heap.length && before(heap[left + 1], heap[next])) next = left + 1;
+    if (next === i) return first;
+    [heap[i], heap[next]] = [heap[next], heap[i]];
+    i = next;
+  }
+}
+
+type AdaptiveConfig = Required<Omit<AdaptiveLimiterOptions, "onLimitChange">> &
+  Pick<AdaptiveLimiterOptions, "onLimitChange">;
+
+/** Validates adaptive options against the initial concurrency and fills in defaults. */
+function resolveAdaptive(concurrency: number, adaptive: AdaptiveLimiterOptions): AdaptiveConfig {
+  const {
+    targetLatencyMs,
+    maxConcurrency,
+    minConcurrency = 1,
+    increase = 1,
+    decreaseFactor = 0.5,
+    isError = () => true,
+    onLimitChange,
+  } = adaptive;
+  if (typeof targetLatencyMs !== "number" || !(targetLatencyMs > 0)) {
+    throw new Error(`Adaptive targetLatencyMs must be a number > 0, got: ${targetLatencyMs}`);
+  }
+  if (
+    typeof minConcurrency !== "number" ||
+    minConcurrency < 1 ||
+    minConcurrency > concurrency ||
+    Math.floor(minConcurrency) !== minConcurrency
+  ) {
+    throw new Error(
+      `Adaptive minConcurrency must be an integer between 1 and concurrency (${concurrency}), got: ${minConcurrency}`,
+    );
+  }
+  if (typeof maxConcurrency !== "number" || maxConcurrency < concurrency || Math.floor(maxConcurrency) !== maxConcurrency) {
+    throw new Error(`Adaptive maxConcurrency must be an integer >= concurrency (${concurrency}), got: ${maxConcurrency}`);
+  }
+  if (typeof increase !== "number" || !(increase > 0)) {
+    throw new Error(`Adaptive increase must be a number > 0, got: ${increase}`);
+  }
+  if (typeof decreaseFactor !== "number" || !(decreaseFactor > 0 && decreaseFactor < 1)) {
+    throw new Error(`Adaptive decreaseFactor must be a number between 0 and 1 (exclusive), got: ${decreaseFactor}`);
+  }
+  return { targetLatencyMs, maxConcurrency, minConcurrency, increase, decreaseFactor, isError, onLimitChange };
+}
+
+/**
+ * Creates a concurrency limiter bound to the given AbortSignal. Validates concurrency >= 1 (throws synchronously otherwise).
+ * The queue is ordered by priority plus aging (+1 per `agingMs` waited), FIFO among equals. The most urgent job waits
+ * until enough permits are free for its weight; lighter jobs do not overtake it, so heavy work is not starved either.
+ * When signal aborts, queued work is rejected if cancelQueuedOnAbort is true (default).
+ * Running work receives the same signal. If the signal is already aborted when the limiter is invoked, the returned Promise rejects immediately without running work.
+ * With `adaptive`, the limit moves between minConcurrency and maxConcurrency (see {@link AdaptiveLimiterOptions}); work
+ * heavier than the current limit still runs once it is alone. With `maxQueue`, calls that would wait beyond the cap
+ * reject with {@link QueueFullError}. An invalid per-call priority or weight rejects the returned Promise as well.
+ *
+ * @param signal - AbortSignal (e.g. scope.signal); when aborted, queued work is rejected (when cancelQueuedOnAbort) and running work receives it
+ * @param options - concurrency (required), cancelQueuedOnAbort (optional, default true), agingMs (optional, default 1000), adaptive (optional), maxQueue (optional)
+ * @returns A limiter function that accepts work(signal) => Promise<T> and optional { priority, weight }, and returns Promise<T>;
+ * it also exposes `concurrency`, `queueDepth`, `stats()`, `setConcurrency(n)` and `drain()`
+ */
+export function createLimiter(signal: AbortSignal, options: LimiterOptions): Limiter {
+  const { concurrency, cancelQueuedOnAbort = true, agingMs = DEFAULT_AGING_MS, maxQueue = Infinity } = options;
+  if (typeof concurrency !== "number" || concurrency < 1 || Math.floor(concurrency) !== concurrency) {
+    throw new Error(`Concurrency must be an integer >= 1, got: ${concurrency}`);
+  }
+  if (typeof agingMs !== "number" || !(agingMs > 0)) {
+    throw new Error(`Limiter agingMs must be a number > 0, got: ${agingMs}`);
+  }
+  if (maxQueue !== Infinity && (typeof maxQueue !== "number" || maxQueue < 0 || Math.floor(maxQueue) !== maxQueue)) {
+    throw new Error(`Limiter maxQueue must be an integer >= 0, got: ${maxQueue}`);
+  }
+  const adaptive = options.adaptive && resolveAdaptive(concurrency, options.adaptive);
+  type QueueItem<T> = {
+    work: (signal: AbortSignal) => Promise<T>;
+    resolve: (value: T) => void;
+    reject: (reason: unknown) => void;
+    priority: number;
+    weight: number;
+    enqueuedAt: number;
+    seq: number;
+    /** Set once the item left the queue; a shed item stays in the heap until it reaches the top. */
+    dequeued?: boolean;
+  };
+  // Binary heap of queued items, most urgent first. Aging raises every waiting item by the same amount, so the order
+  // between two items never changes while they wait and the heap stays valid.
+  const queue: QueueItem<unknown>[] = [];
+  let queued = 0;
+  let seq = 0;
+  const drainWaiters: Array<() => void> = [];
+  let inUse = 0;
+  let active = 0;
+  let completed = 0;
+  let rejected = 0;
+  let started = 0;
+  let totalWaitMs = 0;
+  let currentLimit = concurrency;
+  // Fractional limit behind currentLimit, so additive increases accumulate across completions.
+  let estimate = concurrency;
+  let lastDecreaseAt = -Infinity;
+
+  function adapt(failed: boolean, latencyMs: number, startedAt: number): void {
+    if (!adaptive || signal.aborted) return;
+    if (failed || latencyMs > adaptive.targetLatencyMs) {
+      if (startedAt < lastDecreaseAt) return;
+      lastDecreaseAt = performance.now();
+      estimate = Math.max(adaptive.minConcurrency, estimate * adaptive.decreaseFactor);
+    } else {
+      estimate = Math.min(adaptive.maxConcurrency, estimate + adaptive.increase / currentLimit);
+    }
+    const next = Math.max(adaptive.minConcurrency, Math.floor(estimate));
+    if (next !== currentLimit) {
+      currentLimit = next;
+      adaptive.onLimitChange?.(currentLimit);
+    }
+  }
+
+  function rejectQueued(reason: unknown): void {
+    const items = queue.splice(0).filter((item) => !item.dequeued);
+    items.sort((a, b) => a.seq - b.seq);
+    queued = 0;
+    for (const item of items) {
+      item.dequeued = true;
+      rejected++;
+      item.reject(reason);
+    }
+    notifyIfIdle();
+  }
+
+  function notifyIfIdle(): void {
+    if (active > 0 || queued > 0) return;
+    for (const resolve of drainWaiters.splice(0)) resolve();
+  }
+
+  /**
+   * True when a runs before b: higher aged priority (priority + waited ms / agingMs), then earlier arrival. The
+   * difference between two aged priorities does not depend on the current time, so it is computed without it.
+   */
+  function before(a: QueueItem<unknown>, b: QueueItem<unknown>): boolean {
+    const diff = (a.priority - b.priority) * agingMs + (b.enqueuedAt - a.enqueuedAt);
+    return diff > 0 || (diff === 0 && a.seq < b.seq);
+  }
+
+  function runNext(): void {
+    while (queued > 0) {
+      if (signal.aborted && cancelQueuedOnAbort) {
+        rejectQueued(signal.reason);
+        return;
+      }
+      while (queue[0].dequeued) heapPop(queue, before);
+      const item = queue[0];
+      if (inUse > 0 && inUse + item.weight > currentLimit) return;
+      heapPop(queue, before);
+      item.dequeued = true;
+      // Drop shed items left behind once nothing live is queued.
+      if (--queued === 0) queue.length = 0;
+      inUse += item.weight;
+      active++;
+      started++;
+      totalWaitMs += Date.now() - item.enqueuedAt;
+      const startedAt = performance.now();
+      Promise.resolve(item.work(signal))
+        .then(
+          (value) => {
+            adapt(false, performance.now() - startedAt, startedAt);
+            completed++;
+            item.resolve(value);
+          },
+          (err) => {
+            if (adaptive?.isError(err)) adapt(true, performance.now() - startedAt, startedAt);
+            rejected++;
+            item.reject(err);
+          },
+        )
+        .finally(() => {
+          inUse -= item.weight;
+          active--;
+          runNext();
+          notifyIfIdle();
+        });
+    }
+  }
+
+  if (cancelQueuedOnAbort) {
+    signal.addEventListener("abort", () => {
+      rejectQueued(signal.reason);
+    });
+  }
+
+  const limit = <T>(work: (signal: AbortSignal) => Promise<T>, limitOptions: LimitOptions = {}): Promise<T> => {
+    const { priority = 0, weight = 1 } = limitOptions;
+    if (typeof priority !== "number" || !Number.isFinite(priority)) {
+      return Promise.reject(new Error(`Limiter priority must be a finite number, got: ${priority}`));
+    }
+    const maxWeight = adaptive ? adaptive.maxConcurrency : currentLimit;
+    if (typeof weight !== "number" || weight < 1 || weight > maxWeight || Math.floor(weight) !== weight) {
+      return Promise.reject(new Error(`Limiter weight must be an integer between 1 and ${maxWeight}, got: ${weight}`));
+    }
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    return new Promise<T>((resolve, reject) => {
+      const item = { work, resolve, reject, priority, weight, enqueuedAt: Date.now(), seq: seq++ } as QueueItem<unknown>;
+      heapPush(queue, item, before);
+      queued++;
+      runNext();
+      // Shed the new call if it has to wait and the queue is over its cap.
+      if (queued > maxQueue && !item.dequeued) {
+        item.dequeued = true;
+        if (--queued === 0) queue.length = 0;
+        rejected++;
+        reject(new QueueFullError(maxQueue));
+      }
+    });
+  };
+  return Object.defineProperties(limit, {
+    concurrency: { get: () => currentLimit },
+    queueDepth: { get: () => queued },
+    stats: {
+      value: (): LimiterStats => ({
+        active,
+        queued,
+        completed,
+        rejected,
+        averageWaitMs: started === 0 ? 0 : totalWaitMs / started,
+        concurrency: currentLimit,
+      }),
+    },
+    setConcurrency: {
+      value: (next: number): void => {
+        const min = adaptive ? adaptive.minConcurrency : 1;
+        const max = adaptive ? adaptive.maxConcurrency : Infinity;
+        if (typeof next !== "number" || next < min || next > max || Math.floor(next) !== next) {
+          throw new Error(`Concurrency must be an integer between ${min} and ${max}, got: ${next}`);
+        }
+        estimate = next;
+        if (next !== currentLimit) {
+          currentLimit = next;
+          adaptive?.onLimitChange?.(currentLimit);
+        }
+        runNext();
+      },
+    },
+    drain: {
+      value: (): Promise<void> =>
+        active === 0 && queued === 0
+          ? Promise.resolve()
+          : new Promise<void>((resolve) => {
+              drainWaiters.push(resolve);
+            }),
+    },
+  }) as Limiter;
+}
+
+/** Options for {@link createKeyedLimiter} / task.limitBy. */
+export type KeyedLimiterOptions = {
+  /** Maximum concurrent executions per key (required, integer >= 1). */
+  perKey: number;
+  /** Maximum concurrent executions across all keys (integer >= 1; default unlimited). */
+  global?: number;
+  /** When true (default), queued work is rejected when the scope's signal aborts. */
+  cancelQueuedOnAbort?: boolean;
+};
+
+/** A keyed limiter: `limit(input, work)` runs work under the caps of the key computed from input. */
+export type KeyedLimiter<I> = {
+  <T>(input: I, work: (signal: AbortSignal) => Promise<T>): Promise<T>;
+  /** Number of keys with running or queued work; idle keys are dropped. */
+  readonly activeKeys: number;
+};
+
+/**
+ * Creates a limiter with a concurrency cap per key (e.g. tenant or upstream host) plus an optional global cap.
+ * Each key gets its own FIFO {@link createLimiter} while it has work, and is dropped once idle. When the global cap is
+ * reached, freed slots go round-robin across the keys that are waiting, so one busy key cannot starve the others.
+ * When signal aborts, queued work is rejected with its reason if cancelQueuedOnAbort is true (default), and running work
+ * sees the abort through its signal.
+ *
+ * @param signal - AbortSignal (e.g. scope.signal)
+ * @param keyFn - Maps the input passed to the limiter to its key (compared with Map semantics)
+ * @param options - perKey (required), global (optional), cancelQueuedOnAbort (optional, default true)
+ * @returns A keyed limiter function `(input, work) => Promise<T>`
+ */
+export function createKeyedLimiter<I>(
+  signal: AbortSignal,
+  keyFn: (input: I) => unknown,
+  options: KeyedLimiterOptions,
+): KeyedLimiter<I> {
+  const { perKey, global = Infinity, cancelQueuedOnAbort = true } = options;
+  if (typeof perKey !== "number" || perKey < 1 || Math.floor(perKey) !== perKey) {
+    throw new Error(`Keyed limiter perKey must be an integer >= 1, got: ${perKey}`);
+  }
+  if (global !== Infinity && (typeof global !== "number" || global < 1 || Math.floor(global) !== global)) {
+    throw new Error(`Keyed limiter global must be an integer >= 1, got: ${global}`);
+  }
+  // Per-key limiters listen on their own controller, so a dropped key leaves no listener behind on the scope signal.
+  const keys = new Map<unknown, { controller: AbortController; limit: Limiter; pending: number }>();
+  // Keys waiting for a global slot, in round-robin order: a granted key moves to the back if it still has waiters.
+  const waiting = new Map<unknown, Array<() => void>>();
+  let globalInUse = 0;
+
+  signal.addEventListener("abort", () => {
+    for (const entry of keys.values()) entry.controller.abort(signal.reason);
+  });
+
+  function grantGlobal(): void {
+    while (globalInUse < global && waiting.size > 0) {
+      const [key, grants] = waiting.entries().next().value!;
+      waiting.delete(key);
+      const grant = grants.shift()!;
+      if (grants.length > 0) waiting.set(key, grants);
+      globalInUse++;
+      grant();
+    }
+  }
+
+  function acquireGlobal(key: unknown, keySignal: AbortSignal): Promise<void> {
+    if (globalInUse < global && waiting.size === 0) {
+      globalInUse++;
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, reject) => {
+      const grants = waiting.get(key) ?? [];
+      const onAbort = (): void => {
+        const i = grants.indexOf(grant);
+        if (i !== -1) grants.splice(i, 1);
+        if (grants.length === 0 && waiting.get(key) === grants) waiting.delete(key);
+        reject(keySignal.reason);
+      };
+      const grant = (): void => {
+        keySignal.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      if (cancelQueuedOnAbort) keySignal.addEventListener("abort", onAbort, { once: true });
+      grants.push(grant);
+      if (!waiting.has(key)) waiting.set(key, grants);
+    });
+  }
+
+  const limitBy = <T>(input: I, work: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    const key = keyFn(input);
+    let entry = keys.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      entry = { controller, limit: createLimiter(controller.signal, { concurrency: perKey, cancelQueuedOnAbort }), pending: 0 };
+      keys.set(key, entry);
+    }
+    const keyEntry = entry;
+    keyEntry.pending++;
+    return keyEntry
+      .limit(async (keySignal) => {
+        await acquireGlobal(key, keySignal);
+        try {
+          // The scope may have aborted while the global slot was being granted.
+          if (cancelQueuedOnAbort && keySignal.aborted) throw keySignal.reason;
+          return await work(keySignal);
+        } finally {
+          globalInUse--;
+          grantGlobal();
+        }
+      })
+      .finally(() => {
+        if (--keyEntry.pending === 0 && keys.get(key) === keyEntry) keys.delete(key);
+      });
+  };
+  return Object.defineProperty(limitBy, "activeKeys", { get: () => keys.size }) as KeyedLimiter<I>;
+}
+
+/** Options for {@link createRateLimiter} / task.rateLimit. */
+export type RateLimiterOptions = {
+  /** Tokens added per interval (required, integer >= 1). Each call consumes one token. */
+  tokensPerInterval: number;
+  /** Interval length in ms (required, > 0). Tokens refill continuously at tokensPerInterval / intervalMs. */
+  intervalMs: number;
+  /** Bucket capacity: how many calls may start back to back after an idle period (integer >= 1; default tokensPerInterval). */
+  burst?: number;
+};
+
+/** A rate limiter function: waits for a token, then runs work(signal) and returns its Promise. */
+export type RateLimiter = <T>(work: (signal: AbortSignal) => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a token-bucket rate limiter bound to the given AbortSignal. The bucket starts full (`burst` tokens) and refills
+ * at `tokensPerInterval` per `intervalMs`; each call takes one token, and callers that find it empty wait in FIFO order
+ * and are released as tokens refill. A single timer is armed only while callers wait. When signal aborts, the timer is
+ * cleared and pending waits reject with the signal's reason (e.g. the scope's CancelReason).
+ * Unlike {@link createLimiter}, this caps how often work starts, not how much runs at once.
+ *
+ * @param signal - AbortSignal (e.g. scope.signal); when aborted, waiting calls reject and running work receives it
+ * @param options - tokensPerInterval and intervalMs (required), burst (optional)
+ * @returns A rate limiter function that accepts work(signal) => Promise<T> and returns Promise<T>
+ */
+export function createRateLimiter(signal: AbortSignal, options: RateLimiterOptions): RateLimiter {
+  const { tokensPerInterval, intervalMs, burst = tokensPerInterval } = options;
+  if (typeof tokensPerInterval !== "number" || tokensPerInterval < 1 || Math.floor(tokensPerInterval) !== tokensPerInterval) {
+    throw new Error(`Rate limiter tokensPerInterval must be an integer >= 1, got: ${tokensPerInterval}`);
+  }
+  if (typeof intervalMs !== "number" || !(intervalMs > 0)) {
+    throw new Error(`Rate limiter intervalMs must be a number > 0, got: ${intervalMs}`);
+  }
+  if (typeof burst !== "number" || burst < 1 || Math.floor(burst) !== burst) {
+    throw new Error(`Rate limiter burst must be an integer >= 1, got: ${burst}`);
+  }
+  const waiters: Array<{ grant: () => void; reject: (reason: unknown) => void }> = [];
+  let tokens = burst;
+  let refilledAt = performance.now();
+  let timerId: ReturnType<typeof setTimeout> | undefined = undefined;
+
+  function refill(): void {
+    const now = performance.now();
+    tokens = Math.min(burst, tokens + ((now - refilledAt) * tokensPerInterval) / intervalMs);
+    refilledAt = now;
+  }
+
+  function schedule(): void {
+    if (timerId !== undefined) return;
+    const waitMs = Math.max(1, Math.ceil(((1 - tokens) * intervalMs) / tokensPerInterval));
+    timerId = setTimeout(release, waitMs);
+  }
+
+  function release(): void {
+    timerId = undefined;
+    refill();
+    while (waiters.length > 0 && tokens >= 1) {
+      tokens -= 1;
+      waiters.shift()!.grant();
+    }
+    if (waiters.length > 0) schedule();
+  }
+
+  signal.addEventListener(
+    "abort",
+    () => {
+      if (timerId !== undefined) clearTimeout(timerId);
+      timerId = undefined;
+      for (const waiter of waiters.splice(0)) waiter.reject(signal.reason);
+    },
+    { once: true },
+  );
+
+  const run = <T>(work: (signal: AbortSignal) => Promise<T>): Promise<T> =>
+    signal.aborted ? Promise.reject(signal.reason) : work(signal);
+
+  return <T>(work: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    refill();
+    if (waiters.length === 0 && tokens >= 1) {
+      tokens -= 1;
+      return run(work);
+    }
+    return new Promise<void>((resolve, reject) => {
+      waiters.push({ grant: resolve, reject });
+      schedule();
+    }).then(() => run(work));
+  };
+}
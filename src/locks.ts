@@ -0,0 +1,237 @@
+/**
+ * Scope-aware synchronization: Mutex, Semaphore and RWLock.
+ * Waits take an AbortSignal and are canceled when it aborts; a held lock is released automatically when the holder's signal aborts.
+ */
+
+/**
+ * Handle for a held lock or permit. Call {@link LockHandle.release} (idempotent) or use it with `using` so the lock is
+ * released when the block exits. The lock is also released automatically when the signal passed to acquire aborts.
+ */
+export type LockHandle = {
+  /** Releases the lock or permit. Safe to call more than once. */
+  release(): void;
+  /** True once the handle was released (explicitly, via dispose, or because the holder's signal aborted). */
+  readonly released: boolean;
+  [Symbol.dispose](): void;
+};
+
+type Waiter<K> = { kind: K; grant: () => void };
+
+/** Creates a handle that runs onRelease once, on release(), dispose, or when the holder's signal aborts. */
+function createHandle(signal: AbortSignal | undefined, onRelease: () => void): LockHandle {
+  let released = false;
+  const release = (): void => {
+    if (released) return;
+    released = true;
+    signal?.removeEventListener("abort", release);
+    onRelease();
+  };
+  signal?.addEventListener("abort", release, { once: true });
+  const handle = {
+    release,
+    get released() {
+      return released;
+    },
+  } as LockHandle;
+  // Symbol.dispose is missing in runtimes without explicit resource management; `using` is unavailable there anyway.
+  if (typeof Symbol.dispose === "symbol") handle[Symbol.dispose] = release;
+  return handle;
+}
+
+/**
+ * Queues a waiter until granted. When the signal aborts first, the waiter is removed from the queue, onRemoved runs
+ * (so the lock can grant waiters that were queued behind it) and the Promise rejects with the signal's reason.
+ */
+function waitInQueue<K>(
+  queue: Waiter<K>[],
+  kind: K,
+  signal: AbortSignal | undefined,
+  onGranted: () => LockHandle,
+  onRemoved: () => void,
+): Promise<LockHandle> {
+  return new Promise<LockHandle>((resolve, reject) => {
+    const onAbort = (): void => {
+      const i = queue.indexOf(waiter);
+      if (i !== -1) queue.splice(i, 1);
+      reject(signal!.reason);
+      onRemoved();
+    };
+    const waiter: Waiter<K> = {
+      kind,
+      grant: () => {
+        signal?.removeEventListener("abort", onAbort);
+        const handle = onGranted();
+        // Granted while the signal's abort event is still dispatching (e.g. a holder on the same signal released
+        // first): onAbort will not run, so reject here and hand the lock on instead of granting it to a canceled caller.
+        if (signal?.aborted) {
+          reject(signal.reason);
+          handle.release();
+          return;
+        }
+        resolve(handle);
+      },
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(waiter);
+  });
+}
+
+/**
+ * Counting semaphore with `permits` permits and a FIFO wait queue. Validates permits >= 1 (throws synchronously otherwise).
+ *
+ * @example
+ * const sem = new Semaphore(3);
+ * using permit = await sem.acquire(signal);
+ */
+export class Semaphore {
+  #available: number;
+  readonly #waiters: Waiter<"permit">[] = [];
+
+  constructor(permits: number) {
+    if (typeof permits !== "number" || permits < 1 || Math.floor(permits) !== permits) {
+      throw new Error(`Semaphore permits must be an integer >= 1, got: ${permits}`);
+    }
+    this.#available = permits;
+  }
+
+  /** Number of permits currently free. */
+  get available(): number {
+    return this.#available;
+  }
+
+  /** Number of callers waiting for a permit. */
+  get waiting(): number {
+    return this.#waiters.length;
+  }
+
+  /**
+   * Acquires a permit, waiting in FIFO order while none is free. Rejects with the signal's reason if it aborts before
+   * the permit is granted (the waiter is removed); once granted, the permit is released automatically when the signal aborts.
+   * @param signal - Optional AbortSignal of the caller (e.g. scope.signal)
+   */
+  acquire(signal?: AbortSignal): Promise<LockHandle> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (this.#available > 0 && this.#waiters.length === 0) {
+      this.#available--;
+      return Promise.resolve(this.#handle(signal));
+    }
+    return waitInQueue(this.#waiters, "permit", signal, () => this.#handle(signal), () => this.#drain());
+  }
+
+  #handle(signal: AbortSignal | undefined): LockHandle {
+    return createHandle(signal, () => {
+      this.#available++;
+      this.#drain();
+    });
+  }
+
+  #drain(): void {
+    while (this.#available > 0 && this.#waiters.length > 0) {
+      this.#available--;
+      this.#waiters.shift()!.grant();
+    }
+  }
+}
+
+/**
+ * Mutual-exclusion lock with a FIFO wait queue.
+ *
+ * @example
+ * const mutex = new Mutex();
+ * using lock = await mutex.acquire(signal);
+ */
+export class Mutex {
+  readonly #semaphore = new Semaphore(1);
+
+  /** True while the lock is held. */
+  get locked(): boolean {
+    return this.#semaphore.available === 0;
+  }
+
+  /**
+   * Acquires the lock, waiting while it is held. Rejects with the signal's reason if it aborts before the lock is
+   * granted; once granted, the lock is released automatically when the signal aborts.
+   * @param signal - Optional AbortSignal of the caller (e.g. scope.signal)
+   */
+  acquire(signal?: AbortSignal): Promise<LockHandle> {
+    return this.#semaphore.acquire(signal);
+  }
+}
+
+/**
+ * Readers-writer lock: many readers or one writer. Waiters are served in FIFO order, so a queued writer blocks readers
+ * that arrive after it (no writer starvation); consecutive readers at the head of the queue are granted together.
+ */
+export class RWLock {
+  #readers = 0;
+  #writer = false;
+  readonly #waiters: Waiter<"read" | "write">[] = [];
+
+  /** Number of readers currently holding the lock. */
+  get readers(): number {
+    return this.#readers;
+  }
+
+  /** True while a writer holds the lock. */
+  get writeLocked(): boolean {
+    return this.#writer;
+  }
+
+  /**
+   * Acquires a shared read lock. Rejects with the signal's reason if it aborts while waiting; once granted,
+   * the lock is released automatically when the signal aborts.
+   * @param signal - Optional AbortSignal of the caller (e.g. scope.signal)
+   */
+  acquireRead(signal?: AbortSignal): Promise<LockHandle> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (!this.#writer && this.#waiters.length === 0) {
+      this.#readers++;
+      return Promise.resolve(this.#readHandle(signal));
+    }
+    return waitInQueue(this.#waiters, "read", signal, () => this.#readHandle(signal), () => this.#drain());
+  }
+
+  /**
+   * Acquires the exclusive write lock. Rejects with the signal's reason if it aborts while waiting; once granted,
+   * the lock is released automatically when the signal aborts.
+   * @param signal - Optional AbortSignal of the caller (e.g. scope.signal)
+   */
+  acquireWrite(signal?: AbortSignal): Promise<LockHandle> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (!this.#writer && this.#readers === 0 && this.#waiters.length === 0) {
+      this.#writer = true;
+      return Promise.resolve(this.#writeHandle(signal));
+    }
+    return waitInQueue(this.#waiters, "write", signal, () => this.#writeHandle(signal), () => this.#drain());
+  }
+
+  #readHandle(signal: AbortSignal | undefined): LockHandle {
+    return createHandle(signal, () => {
+      this.#readers--;
+      this.#drain();
+    });
+  }
+
+  #writeHandle(signal: AbortSignal | undefined): LockHandle {
+    return createHandle(signal, () => {
+      this.#writer = false;
+      this.#drain();
+    });
+  }
+
+  #drain(): void {
+    while (this.#waiters.length > 0 && !this.#writer) {
+      const head = this.#waiters[0];
+      if (head.kind === "write") {
+        if (this.#readers > 0) return;
+        this.#waiters.shift();
+        this.#writer = true;
+        head.grant();
+        return;
+      }
+      this.#waiters.shift();
+      this.#readers++;
+      head.grant();
+    }
+  }
+}
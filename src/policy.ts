@@ -0,0 +1,144 @@
+/**
+ * Resilience policies – compose timeout, retry, concurrency limit, circuit breaker and fallback in a fixed, readable
+ * order instead of nesting closures by hand.
+ */
+
+import { runTask, type TaskLifecycleHook } from "./task.js";
+import { retry, runWithWorkTimeout, type RetryOptions } from "./helpers.js";
+import { Semaphore } from "./locks.js";
+import type { CircuitBreaker } from "./circuit-breaker.js";
+
+/**
+ * Options for {@link definePolicy}.
+ * @property name - Base name of the layer tasks, e.g. `${name}:retry` (default "policy")
+ * @property lifecycleHooks - Hooks invoked for every layer task, so each layer reports start, completion, failure and cancellation
+ */
+export type PolicyOptions = {
+  name?: string;
+  lifecycleHooks?: TaskLifecycleHook | TaskLifecycleHook[];
+};
+
+/**
+ * An immutable, reusable resilience policy. Every builder method returns a new policy with one more layer.
+ * Layers run outermost first, in the order they were added: in `definePolicy().timeout(1000).retry(r).limit(4)`, the
+ * timeout bounds all retries together, and each retry attempt waits for a limit slot. Add `fallback` last to catch
+ * everything, or earlier to catch only the layers added after it.
+ * `F` is the union of fallback value types, added to every result type.
+ */
+export type Policy<F = never> = {
+  /** Adds a time limit. On expiry only the inner layers' signal is aborted (`{ type: "timeout", ms }`) and the layer rejects with a TimeoutError; the scope is not aborted. */
+  timeout(ms: number): Policy<F>;
+  /** Adds retries of the inner layers with {@link RetryOptions} (backoff, jitter, retryIf, ...). */
+  retry(options: RetryOptions): Policy<F>;
+  /** Adds a concurrency cap shared by every run of this policy (or pass a {@link Semaphore} to share it wider). Waits are canceled when the caller's signal aborts. */
+  limit(concurrency: number | Semaphore): Policy<F>;
+  /** Runs the inner layers through a circuit breaker (see createCircuitBreaker); an open circuit rejects with CircuitOpenError. */
+  circuitBreaker(breaker: CircuitBreaker): Policy<F>;
+  /** Resolves with `fallback` (or `fallback(error)`) when the inner layers reject. Cancellations of the caller's signal are rethrown, not replaced. */
+  fallback<G>(fallback: G | ((error: unknown) => G | PromiseLike<G>)): Policy<F | G>;
+  /** Appends the layers of another policy, inside this one's. */
+  wrap<G>(inner: Policy<G>): Policy<F | G>;
+  /**
+   * Runs work through every layer.
+   * @param work - Async work; receives a signal that aborts with the caller's signal or an inner timeout
+   * @param signal - AbortSignal of the caller (e.g. scope.signal)
+   */
+  run<T>(work: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T | F>;
+};
+
+/** One policy layer: wraps the next (inner) layer. */
+type Layer = {
+  readonly kind: "timeout" | "retry" | "limit" | "circuit-breaker" | "fallback";
+  apply<T>(next: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<unknown>;
+};
+
+/** Module-private carrier for a policy's layers, so wrap() can read another policy's layers. */
+const layersOf = new WeakMap<Policy<unknown>, readonly Layer[]>();
+
+function buildPolicy<F>(layers: readonly Layer[], options: PolicyOptions): Policy<F> {
+  const { name = "policy", lifecycleHooks } = options;
+  const add = <G>(layer: Layer): Policy<G> => buildPolicy<G>([...layers, layer], options);
+
+  const policy: Policy<F> = {
+    timeout(ms) {
+      if (typeof ms !== "number" || ms < 0) {
+        throw new Error(`Policy timeout must be a number >= 0, got: ${ms}`);
+      }
+      return add({ kind: "timeout", apply: (next, signal) => runWithWorkTimeout(ms, next, signal) });
+    },
+    retry(retryOptions) {
+      return add({ kind: "retry", apply: (next, signal) => retry(next, retryOptions, signal) });
+    },
+    limit(concurrency) {
+      const semaphore = typeof concurrency === "number" ? new Semaphore(concurrency) : concurrency;
+      return add({
+        kind: "limit",
+        async apply(next, signal) {
+          const permit = await semaphore.acquire(signal);
+          try {
+            return await next(signal);
+          } finally {
+            permit.release();
+          }
+        },
+      });
+    },
+    circuitBreaker(breaker) {
+      return add({ kind: "circuit-breaker", apply: (next, signal) => breaker.run(next, signal) });
+    },
+    fallback<G>(fallback: G | ((error: unknown) => G | PromiseLike<G>)) {
+      return add<F | G>({
+        kind: "fallback",
+        async apply(next, signal) {
+          try {
+            return await next(signal);
+          } catch (err) {
+            if (signal.aborted) throw err;
+            return typeof fallback === "function"
+              ? await (fallback as (error: unknown) => G | PromiseLike<G>)(err)
+              : fallback;
+          }
+        },
+      });
+    },
+    wrap<G>(inner: Policy<G>) {
+      return buildPolicy<F | G>([...layers, ...(layersOf.get(inner as Policy<unknown>) ?? [])], options);
+    },
+    run<T>(work: (signal: AbortSignal) => Promise<T>, signal: AbortSignal): Promise<T | F> {
+      let next = work as (signal: AbortSignal) => Promise<unknown>;
+      for (const layer of [...layers].reverse()) {
+        const inner = next;
+        // Each layer runs as its own task so lifecycle hooks and debug see it.
+        next = (layerSignal) =>
+          Promise.resolve(
+            runTask((taskSignal) => layer.apply(inner, taskSignal), {
+              signal: layerSignal,
+              name: `${name}:${layer.kind}`,
+              ...(lifecycleHooks && { lifecycleHooks }),
+            }),
+          );
+      }
+      return next(signal) as Promise<T | F>;
+    },
+  };
+  layersOf.set(policy as Policy<unknown>, layers);
+  return policy;
+}
+
+/**
+ * Starts an empty resilience policy. Chain layers with timeout / retry / limit / circuitBreaker / fallback / wrap; the
+ * first layer added is the outermost (see {@link Policy}). Run work with `policy.run(work, signal)` or
+ * `task(work, { policy })`. Each layer runs as a task named `${name}:<layer>` that reports to `lifecycleHooks`.
+ *
+ * @example
+ * const resilient = definePolicy({ name: "users" })
+ *   .fallback(null)
+ *   .timeout(2000)
+ *   .retry({ retries: 3, backoff: "exponential", jitter: "full" })
+ *   .circuitBreaker(usersBreaker)
+ *   .limit(8);
+ * const user = await resilient.run((signal) => fetchUser(id, signal), scope.signal);
+ */
+export function definePolicy(options: PolicyOptions = {}): Policy {
+  return buildPolicy<never>([], options);
+}
@@ -1,5 +1,5 @@
 /**
- * Concurrency primitives: sync, race, rush, branch, spawn.
+ * Concurrency primitives: sync, race, any, quorum, rush, branch, spawn, supervise.
  * Built on Task and Scope; all except spawn use scope.signal for cancellation.
  */
 
@@ -7,6 +7,7 @@ import { runTask, type CancelReason, type Task } from "./task.js";
 import {
   getCurrentScope,
   getCurrentScopeStorage,
+  getScopeDeadlineRemainingMs,
   runInScope,
   runWithScopeStorage,
   warnOrphanTasksIfStrict,
@@ -15,20 +16,99 @@ import {
 } from "./scope.js";
 import { pushScope, popScope } from "./debug.js";
 import {
+  sleep,
   createSleep,
   createTimeout,
+  runWithWorkTimeout,
+  runWithDeadline,
   createRetry,
-  createLimiter,
+  createHedge,
   type RetryOptions,
-  type LimiterOptions,
+  type HedgeOptions,
+  type TimeoutFallback,
+  type TimeoutOptions,
 } from "./helpers.js";
+import {
+  createLimiter,
+  createKeyedLimiter,
+  createRateLimiter,
+  type Limiter,
+  type LimiterOptions,
+  type KeyedLimiter,
+  type KeyedLimiterOptions,
+  type RateLimiter,
+  type RateLimiterOptions,
+} from "./limiter.js";
+import { createChannel, type Channel, type ChannelOptions } from "./channel.js";
+import { createSelect, type SelectCase, type SelectCases, type SelectResult } from "./select.js";
+import type { Policy } from "./policy.js";
+import {
+  createMap,
+  forEach,
+  checkForEachOptions,
+  type ForEachOptions,
+  type MapFn,
+  type MapOptions,
+} from "./iterate.js";
+import { createBatcher, type BatchFn, type Batcher, type BatcherOptions } from "./batcher.js";
+import { joinFlight, globalFlights } from "./single-flight.js";
+import {
+  every,
+  at,
+  cron,
+  type CronOptions,
+  type EveryOptions,
+  type Schedule,
+  type ScheduleOptions,
+} from "./schedule.js";
 import { isStrictModeEnabled, strictModeWarn } from "./strict-mode.js";
 
-export type { RetryOptions, RetryBackoff, LimiterOptions } from "./helpers.js";
-export { createLimiter } from "./helpers.js";
+export type {
+  RetryOptions,
+  RetryBackoff,
+  RetryJitter,
+  HedgeOptions,
+  TimeoutFallback,
+  TimeoutOptions,
+} from "./helpers.js";
+export type {
+  LimiterOptions,
+  LimitOptions,
+  AdaptiveLimiterOptions,
+  Limiter,
+  LimiterStats,
+  KeyedLimiterOptions,
+  KeyedLimiter,
+  RateLimiterOptions,
+  RateLimiter,
+} from "./limiter.js";
+export { createLimiter, createKeyedLimiter, createRateLimiter, QueueFullError } from "./limiter.js";
+export type { MapOptions, MapFn, ForEachOptions } from "./iterate.js";
+export type { BatcherOptions, BatchFn, Batcher } from "./batcher.js";
+export { createBatcher } from "./batcher.js";
+export type {
+  Schedule,
+  ScheduleOptions,
+  ScheduleOverlap,
+  EveryOptions,
+  CronOptions,
+  CronExpression,
+} from "./schedule.js";
 
-/** Options for task when using the form task(work, options). */
-export type TaskOptions = { name?: string };
+/**
+ * Options for task when using the form task(work, options).
+ * @property name - Task name (debug, hooks, error messages)
+ * @property timeoutMs - Time limit for this task only: on expiry the task is canceled with `{ type: "timeout", ms }`
+ * (its signal aborts, siblings and the scope keep running; inside sync the canceled task does not fail the scope)
+ * @property fallback - With timeoutMs: value (or function producing it) the task completes with on expiry instead of being canceled
+ * @property policy - Resilience policy (see definePolicy) the work runs through; timeoutMs, if set, bounds the whole policy
+ */
+export type TaskOptions<T = unknown> = {
+  name?: string;
+  timeoutMs?: number;
+  fallback?: TimeoutFallback<T>;
+  policy?: Policy<T>;
+};
 
 /**
  * Unwraps an array/tuple of Task types to the array of their resolved values.
@@ -48,31 +128,139 @@ export type SettledTasks<T extends readonly Task<unknown>[]> = {
 /**
  * Context passed to primitive callbacks (sync, race, rush, branch, spawn). Use `task(work)`,
  * `task(name, work)`, or `task(work, { name })` to start tasks tied to the current scope; they are canceled when the scope closes.
- * Helpers: task.sleep(ms), task.timeout(ms, work), task.retry(fn, options), task.limit(concurrency, options?), task.all, task.race, task.allSettled.
+ * Helpers: task.lazy(work), task.sleep(ms), task.timeout(ms, work), task.retry(fn, options), task.hedge(work, options), task.limit(concurrency, options?), task.limitBy(keyFn, options), task.rateLimit(options), task.channel(options?), task.select(build), task.map(items, fn, options?), task.forEach(items, fn, options?), task.batcher(batchFn, options?), task.singleFlight(key, work, options?), task.every(ms, work, options?), task.at(date, work, options?), task.cron(expression, work, options?), task.all, task.race, task.any, task.allSettled.
  */
 export type TaskloomContext = {
   task: {
     <T>(work: (signal: AbortSignal) => Promise<T>): Task<T>;
     <T>(name: string, work: (signal: AbortSignal) => Promise<T>): Task<T>;
-    <T>(work: (signal: AbortSignal) => Promise<T>, options: TaskOptions): Task<T>;
+    <T>(work: (signal: AbortSignal) => Promise<T>, options: TaskOptions<T>): Task<T>;
+    /**
+     * Creates a scope-bound task in "created" state that only starts on first await/then or `t.start()`.
+     * If the scope closes first, the task is canceled without ever running. Lazy tasks are not awaited by
+     * sync/race/rush; their outcome reaches the primitive through whoever awaits them.
+     */
+    lazy: {
+      <T>(work: (signal: AbortSignal) => Promise<T>): Task<T>;
+      <T>(name: string, work: (signal: AbortSignal) => Promise<T>): Task<T>;
+      <T>(work: (signal: AbortSignal) => Promise<T>, options: TaskOptions<T>): Task<T>;
+    };
     sleep(ms: number): Promise<void>;
-    timeout<T>(ms: number, work: (signal: AbortSignal) => Promise<T>): Promise<T>;
+    /**
+     * Runs work with a time limit. By default expiry aborts the whole scope and rejects with a TimeoutError.
+     * With `{ scope: "task" }` only the work's own signal is aborted (`{ type: "timeout", ms }`) and the optional
+     * `fallback` is returned instead of rejecting.
+     */
+    timeout<T>(ms: number, work: (signal: AbortSignal) => Promise<T>, options?: TimeoutOptions<T>): Promise<T>;
     retry<T>(fn: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T>;
+    /**
+     * Runs work with hedged attempts: if it has not settled after `delayMs`, a duplicate attempt starts (up to `maxHedges`).
+     * The first success wins and the other attempts are canceled. No hedge is scheduled when the scope deadline's remaining budget is below `delayMs`.
+     */
+    hedge<T>(work: (signal: AbortSignal) => Promise<T>, options: HedgeOptions): Promise<T>;
     /**
      * Returns a concurrency limiter that runs at most `concurrency` work functions at a time.
      * Usage: const limit = task.limit(3); await limit(async (signal) => { ... });
      * Work receives the scope's AbortSignal (e.g. for fetch). When the scope aborts, queued work is rejected if cancelQueuedOnAbort is true (default).
-     * @param concurrency - Max concurrent runs (integer >= 1)
-     * @param options - Optional: cancelQueuedOnAbort (default true) to reject queued work on scope abort
+     * Per call, `limit(work, { priority, weight })` lets urgent work jump the queue (aged by agingMs) and heavy work hold several permits.
+     * @param concurrency - Max concurrent runs (integer >= 1); the permit budget for weighted work
+     * @param options - Optional: cancelQueuedOnAbort (default true) to reject queued work on scope abort, agingMs (default 1000)
      */
-    limit(concurrency: number, options?: Partial<LimiterOptions>): <T>(work: (signal: AbortSignal) => Promise<T>) => Promise<T>;
+    limit(concurrency: number, options?: Partial<LimiterOptions>): Limiter;
+    /**
+     * Returns a keyed limiter: `limit(input, work)` runs at most `perKey` works per key (from `keyFn(input)`) and at most
+     * `global` overall, handing freed global slots round-robin across keys. Idle keys are dropped; queued work is rejected
+     * with the scope's reason on abort (cancelQueuedOnAbort, default true).
+     * Usage: const limit = task.limitBy((url: string) => new URL(url).host, { perKey: 2, global: 20 });
+     */
+    limitBy<I>(keyFn: (input: I) => unknown, options: KeyedLimiterOptions): KeyedLimiter<I>;
+    /**
+     * Returns a token-bucket rate limiter: each call waits for a token (refilled at tokensPerInterval per intervalMs, up to
+     * `burst`), then runs work with the scope's AbortSignal. Pending waits reject with the scope's reason on abort.
+     * Usage: const rateLimit = task.rateLimit({ tokensPerInterval: 10, intervalMs: 1000 }); await rateLimit((signal) => fetch(url, { signal }));
+     */
+    rateLimit(options: RateLimiterOptions): RateLimiter;
+    /**
+     * Returns a bounded {@link Channel} owned by the current scope: senders wait when the buffer is full, and pending
+     * senders/receivers are rejected with the scope's reason when the scope aborts.
+     * @param options - Optional: bufferSize (default 0)
+     */
+    channel<T>(options?: ChannelOptions): Channel<T>;
+    /**
+     * Waits on several cases (tasks, timers, async iterators, AbortSignals) and runs the handler of the first ready one;
+     * the others are detached (timers cleared, listeners removed, iterators closed). Rejects with the scope's reason on abort.
+     * Usage: await task.select((on) => [on.task(t, (v) => v), on.sleep(100, () => undefined)]);
+     */
+    select<C extends SelectCase<unknown>>(build: (on: SelectCases) => readonly C[]): Promise<SelectResult<C>>;
+    /**
+     * Runs fn(item, signal, index) over an iterable or async iterable with at most `concurrency` items in flight, each as
+     * a child task named `${name}[${index}]`, and resolves with the results in input order. Items are pulled lazily.
+     * The first failure cancels the items in flight and rejects (stopOnError, default true); with `settle: true` it
+     * resolves with a PromiseSettledResult per item instead.
+     * Usage: const pages = await task.map(urls, (url, signal) => fetch(url, { signal }), { concurrency: 8 });
+     */
+    map: {
+      <I, R>(
+        items: Iterable<I> | AsyncIterable<I>,
+        fn: MapFn<I, R>,
+        options: MapOptions & { settle: true },
+      ): Promise<PromiseSettledResult<R>[]>;
+      <I, R>(items: Iterable<I> | AsyncIterable<I>, fn: MapFn<I, R>, options?: MapOptions): Promise<R[]>;
+    };
+    /**
+     * Consumes an async iterable (e.g. a Node stream) with backpressure: fn(item, signal, index) runs for at most
+     * `concurrency` items at once (default 1), and the source is pulled only as workers free up, plus up to
+     * `highWaterMark` items buffered ahead (default 0). Returns a scope task named `name` (default "forEach"), so the
+     * first failure fails the scope like any task inside sync; on failure or scope abort, the items in flight are
+     * canceled and the source's `return()` is called.
+     * Usage: await task.forEach(stream, (msg, signal) => handle(msg, signal), { concurrency: 4 });
+     */
+    forEach<I>(
+      items: AsyncIterable<I> | Iterable<I>,
+      fn: MapFn<I, unknown>,
+      options?: ForEachOptions,
+    ): Task<void>;
+    /**
+     * Returns a DataLoader-style batcher: concurrent `load(key, signal?)` calls coalesce into one `batchFn(keys, signal)`
+     * call (up to maxBatchSize keys, after maxWaitMs), deduplicated and cached by `cacheKey`. A load whose caller signal
+     * aborts leaves the pending batch; a dispatched batch's signal aborts when every waiter is gone or the scope closes.
+     * Usage: const users = task.batcher((ids: string[], signal) => fetchUsers(ids, signal)); await users.load(id, signal);
+     */
+    batcher<K, V>(batchFn: BatchFn<K, V>, options?: BatcherOptions<K>): Batcher<K, V>;
+    /**
+     * Starts a scope task that shares one in-flight execution of work with every concurrent caller of the same key,
+     * including callers in other scopes (see singleFlight). Canceling this task only detaches it; the shared work is
+     * aborted once the last waiter is gone.
+     * Usage: const config = await task.singleFlight(`config:${tenant}`, (signal) => fetchConfig(tenant, signal));
+     */
+    singleFlight<T>(key: unknown, work: (signal: AbortSignal) => Promise<T>, options?: { name?: string }): Task<T>;
+    /**
+     * Runs work every `ms` milliseconds until the scope closes, each run as a child task named `every#0`, `every#1`, ...
+     * `overlap` decides what happens when a run is due while the previous one is in progress: "skip" (default),
+     * "queue" or "cancel-previous". `jitter` adds up to that many random ms per run; `startImmediately` runs once right away.
+     * Usage: const poller = task.every(5000, (signal) => poll(signal), { jitter: 500 }); poller.stop();
+     */
+    every(ms: number, work: (signal: AbortSignal) => Promise<unknown>, options?: EveryOptions): Schedule;
+    /** Runs work once at `date` (Date or epoch ms) as a child task named `at#0`, unless the scope closes first. */
+    at(date: Date | number, work: (signal: AbortSignal) => Promise<unknown>, options?: ScheduleOptions): Schedule;
+    /**
+     * Runs work at the times matching a 5-field cron expression (local time; see parseCron) until the scope closes,
+     * each run as a child task named `cron#0`, `cron#1`, ... `overlap` works as in task.every.
+     * Usage: task.cron("*\/5 * * * *", (signal) => refreshReport(signal));
+     */
+    cron(expression: string, work: (signal: AbortSignal) => Promise<unknown>, options?: CronOptions): Schedule;
     all<T extends readonly Task<unknown>[]>(tasks: T): Promise<UnwrapTasks<T>>;
     race<T>(tasks: readonly Task<T>[]): Promise<T>;
+    /** Resolves with the first task to fulfill (Promise.any semantics). Cancels the other tasks once one fulfills. Rejects with an AggregateError naming each task when all fail, or with an error for an empty list. */
+    any<T>(tasks: readonly Task<T>[]): Promise<T>;
     allSettled<T extends readonly Task<unknown>[]>(tasks: T): Promise<SettledTasks<T>>;
   };
   scope: Scope;
 };
 
+/** One successful task in a {@link quorum} result: the task's name (if any) and its value. */
+export type QuorumResult<T> = { name?: string; value: T };
+
 /**
  * Callback type for sync, race, rush, branch, and spawn. Receives TaskloomContext (`{ task, scope }`);
  * return a Promise that starts work via `task(work)` or `task(name, work)`.
@@ -85,46 +273,250 @@ function attachRejectionHandler<T>(t: Task<T>): Task<T> {
   return t;
 }
 
+/**
+ * Awaits a scope task, treating cancellation through the task's own handle (task.cancel()) as settled:
+ * when the task is canceled while the scope is still open, only that task stopped and the scope keeps running.
+ */
+function awaitUnlessSelfCanceled(scope: Scope, t: Task<unknown>): Promise<unknown> {
+  return Promise.resolve(t).catch((reason) => {
+    if (t.status === "canceled" && !scope.signal.aborted) return undefined;
+    throw reason;
+  });
+}
+
+/**
+ * Promise.race over scope tasks that drops tasks canceled through their own handle (see awaitUnlessSelfCanceled):
+ * such a task does not settle the race. When every task was canceled that way, rejects with the last one's reason.
+ */
+function raceUnlessSelfCanceled<T>(scope: Scope, tasks: readonly Task<T>[]): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let remaining = tasks.length;
+    for (const t of tasks) {
+      t.then(resolve, (reason) => {
+        if (t.status === "canceled" && !scope.signal.aborted) {
+          if (--remaining === 0) reject(reason);
+          return;
+        }
+        reject(reason);
+      });
+    }
+  });
+}
+
+/**
+ * Builds the AggregateError of a combinator whose tasks failed: `errors` holds the failures, `taskNames` the failed
+ * tasks' names (undefined for anonymous tasks), and the message is followed by the names in parentheses.
+ */
+function taskFailuresError(message: string, errors: unknown[], names: (string | undefined)[]): AggregateError {
+  const aggregate = new AggregateError(errors, `${message} (${names.map((n) => n ?? "anonymous").join(", ")})`);
+  (aggregate as AggregateError & { taskNames?: (string | undefined)[] }).taskNames = names;
+  return aggregate;
+}
+
+/**
+ * Promise.any over tasks. When every task fails, rejects with an AggregateError whose message lists the task names
+ * and whose `taskNames` holds each task's name (in input order, undefined for anonymous tasks).
+ */
+function firstFulfilled<T>(label: string, tasks: readonly Task<T>[]): Promise<T> {
+  return Promise.any(tasks).catch((err: AggregateError) => {
+    throw taskFailuresError(
+      `${label}: all ${tasks.length} tasks failed`,
+      err.errors,
+      tasks.map((t) => t.name),
+    );
+  });
+}
+
+/**
+ * Creates a scope owned by a primitive (not by runInScope): linked to the current scope so parent abort cancels it,
+ * with its own storage (inheriting the parent deadline) to run the callback in.
+ */
+function createLinkedScope(): {
+  controller: AbortController;
+  scope: Scope;
+  entries: ScopeStorage["entries"];
+  store: ScopeStorage;
+} {
+  const controller = new AbortController();
+  const scope: Scope = {
+    signal: controller.signal,
+    abort: (reason?: CancelReason | unknown) => controller.abort(reason),
+  };
+  const parentScope = getCurrentScope();
+  if (parentScope) {
+    parentScope.signal.addEventListener(
+      "abort",
+      () => controller.abort(parentScope.signal.reason),
+      { once: true },
+    );
+  }
+  const entries: ScopeStorage["entries"] = [];
+  const parentStore = getCurrentScopeStorage();
+  const store: ScopeStorage = {
+    scope,
+    entries,
+    ...(parentStore?.deadlineMs && { deadlineMs: parentStore.deadlineMs }),
+  };
+  return { controller, scope, entries, store };
+}
+
+/** Resolves the task(work) / task(name, work) / task(work, options) overloads to work, name and options. */
+function parseTaskArgs<T>(
+  first: string | ((signal: AbortSignal) => Promise<T>),
+  second?: (signal: AbortSignal) => Promise<T> | TaskOptions,
+): { work: (signal: AbortSignal) => Promise<T>; name: string | undefined; options?: TaskOptions<T> } {
+  if (typeof first === "string") {
+    return { work: second as (signal: AbortSignal) => Promise<T>, name: first };
+  }
+  if (second && typeof second === "object") {
+    const options = second as TaskOptions<T>;
+    return { work: first, name: options.name, options };
+  }
+  return { work: first, name: undefined };
+}
+
+/**
+ * Wraps work with the per-task timeout of task(work, { timeoutMs, fallback }). With a fallback the task completes
+ * with it on expiry; without one the task cancels itself, so only this task sees the timeout reason. Either way the
+ * limit is capped by the scope's deadline and becomes the deadline nested helpers (retry, hedge) see.
+ */
+function withTaskTimeout<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  options: TaskOptions<T>,
+  self: () => Task<T>,
+): (signal: AbortSignal) => Promise<T> {
+  if ("fallback" in options) {
+    return (signal) => runWithWorkTimeout(timeoutMs, work, signal, options);
+  }
+  return async (signal) => {
+    const remainingMs = getScopeDeadlineRemainingMs();
+    const effectiveMs = remainingMs !== undefined ? Math.min(timeoutMs, remainingMs) : timeoutMs;
+    const id = setTimeout(() => self().cancel({ type: "timeout", ms: effectiveMs }), effectiveMs);
+    try {
+      return await runWithDeadline(effectiveMs, () => work(signal));
+    } finally {
+      clearTimeout(id);
+    }
+  };
+}
+
+/** Validates the per-task timeout of TaskOptions: timeoutMs must be a number >= 0 and fallback requires timeoutMs. */
+function checkTaskTimeout<T>(options: TaskOptions<T> | undefined): void {
+  const timeoutMs = options?.timeoutMs;
+  if (timeoutMs !== undefined && (typeof timeoutMs !== "number" || !(timeoutMs >= 0))) {
+    throw new Error(`task timeoutMs must be a number >= 0, got: ${timeoutMs}`);
+  }
+  if (timeoutMs === undefined && options && "fallback" in options) {
+    throw new Error("task fallback requires timeoutMs");
+  }
+}
+
+/** Runs work through the policy of TaskOptions, if any. */
+function withTaskPolicy<T>(
+  work: (signal: AbortSignal) => Promise<T>,
+  options: TaskOptions<T> | undefined,
+): (signal: AbortSignal) => Promise<T> {
+  const policy = options?.policy;
+  return policy ? (signal) => policy.run(work, signal) : work;
+}
+
 function taskImpl<T>(
   scope: Scope,
   first: string | ((signal: AbortSignal) => Promise<T>),
   second?: (signal: AbortSignal) => Promise<T> | TaskOptions,
+  lazy = false,
 ): Task<T> {
-  let work: (signal: AbortSignal) => Promise<T>;
-  let name: string | undefined;
-  if (typeof first === "string") {
-    work = second as (signal: AbortSignal) => Promise<T>;
-    name = first;
-  } else if (second && typeof second === "object" && "name" in second) {
-    work = first;
-    name = (second as TaskOptions).name;
-  } else {
-    work = first;
-    name = undefined;
-  }
-  return runTask(work, name ? { signal: scope.signal, name } : { signal: scope.signal });
+  const { work: taskWork, name, options } = parseTaskArgs(first, second);
+  checkTaskTimeout(options);
+  const work = withTaskPolicy(taskWork, options);
+  const timeoutMs = options?.timeoutMs;
+  const t: Task<T> = runTask(
+    timeoutMs === undefined ? work : withTaskTimeout(work, timeoutMs, options!, () => t),
+    {
+      signal: scope.signal,
+      ...(name && { name }),
+      ...(lazy && { lazy }),
+    },
+  );
+  return t;
 }
 
+type TaskFn = (
+  first: string | ((signal: AbortSignal) => Promise<unknown>),
+  second?: (signal: AbortSignal) => Promise<unknown> | TaskOptions,
+) => Task<unknown>;
+
+/**
+ * Builds ctx.task from taskFn and the helpers bound to scope. lazyFn implements task.lazy (default: a lazy scope task);
+ * supervise passes its own so lazy children are restarted too.
+ */
 function attachHelpersToTask(
   scope: Scope,
-  taskFn: (
-    first: string | ((signal: AbortSignal) => Promise<unknown>),
-    second?: (signal: AbortSignal) => Promise<unknown> | TaskOptions,
-  ) => Task<unknown>,
+  taskFn: TaskFn,
+  lazyFn: TaskFn = (first, second) => taskImpl(scope, first, second, true),
 ): TaskloomContext["task"] {
   const bound = Object.assign(taskFn, {
+    lazy(
+      first: string | ((signal: AbortSignal) => Promise<unknown>),
+      second?: (signal: AbortSignal) => Promise<unknown> | TaskOptions,
+    ): Task<unknown> {
+      return lazyFn(first, second);
+    },
     sleep: createSleep(scope.signal),
     timeout: createTimeout(scope, scope.signal),
     retry: createRetry(scope.signal),
+    hedge: createHedge(scope.signal),
     limit(concurrency: number, options?: Partial<LimiterOptions>) {
       return createLimiter(scope.signal, { concurrency, ...options });
     },
+    limitBy<I>(keyFn: (input: I) => unknown, options: KeyedLimiterOptions): KeyedLimiter<I> {
+      return createKeyedLimiter(scope.signal, keyFn, options);
+    },
+    rateLimit(options: RateLimiterOptions): RateLimiter {
+      return createRateLimiter(scope.signal, options);
+    },
+    channel<T>(options?: ChannelOptions): Channel<T> {
+      return createChannel<T>(scope.signal, options);
+    },
+    select: createSelect(scope.signal),
+    map: createMap(scope.signal),
+    forEach<I>(
+      items: AsyncIterable<I> | Iterable<I>,
+      fn: MapFn<I, unknown>,
+      options: ForEachOptions = {},
+    ): Task<void> {
+      checkForEachOptions(options);
+      return taskFn(options.name ?? "forEach", (signal) => forEach(items, fn, options, signal)) as Task<void>;
+    },
+    batcher<K, V>(batchFn: BatchFn<K, V>, options?: BatcherOptions<K>): Batcher<K, V> {
+      return createBatcher(scope.signal, batchFn, options);
+    },
+    singleFlight<T>(key: unknown, work: (signal: AbortSignal) => Promise<T>, options?: { name?: string }): Task<T> {
+      const join = joinFlight(globalFlights, key, work);
+      return (options?.name ? taskFn(options.name, join) : taskFn(join)) as Task<T>;
+    },
+    every(ms: number, work: (signal: AbortSignal) => Promise<unknown>, options: EveryOptions = {}): Schedule {
+      return every(ms, work, options, scope.signal);
+    },
+    at(date: Date | number, work: (signal: AbortSignal) => Promise<unknown>, options: ScheduleOptions = {}): Schedule {
+      return at(date, work, options, scope.signal);
+    },
+    cron(expression: string, work: (signal: AbortSignal) => Promise<unknown>, options: CronOptions = {}): Schedule {
+      return cron(expression, work, options, scope.signal);
+    },
     all<T extends readonly Task<unknown>[]>(tasks: T): Promise<UnwrapTasks<T>> {
       return Promise.all(tasks) as Promise<UnwrapTasks<T>>;
     },
     race<T>(tasks: readonly Task<T>[]): Promise<T> {
       return Promise.race(tasks);
     },
+    async any<T>(tasks: readonly Task<T>[]): Promise<T> {
+      if (tasks.length === 0) throw new Error("task.any: expected at least one task");
+      const value = await firstFulfilled("task.any", tasks);
+      for (const t of tasks) t.cancel();
+      return value;
+    },
     allSettled<T extends readonly Task<unknown>[]>(tasks: T): Promise<SettledTasks<T>> {
       return Promise.allSettled(tasks) as Promise<SettledTasks<T>>;
     },
@@ -174,6 +566,7 @@ function createSyncContext(scope: Scope): { tasks: Task<unknown>[]; ctx: Taskloo
 /**
  * Runs all tasks started in the callback concurrently and waits for all to complete.
  * On first rejection or cancellation, the scope is aborted so remaining tasks are canceled and the error is rethrown.
+ * A task canceled through its own handle (`t.cancel()`) does not fail the scope; its siblings keep running.
  * Callback receives TaskloomContext (`{ task, scope }`); use `task(work)` or `task(name, work)` to start tasks.
  *
  * @example
@@ -191,7 +584,7 @@ export function sync<R>(callback: SyncCallback<R>): Promise<R> {
         const { tasks, ctx } = createSyncContext(scope);
         const resultPromise = callback(ctx);
         resultPromise.catch(() => {}); // avoid unhandled rejection when scope aborts before callback settles
-        await Promise.all(tasks);
+        await Promise.all(tasks.map((t) => awaitUnlessSelfCanceled(scope, t)));
         return await resultPromise;
       } finally {
         popScope();
@@ -203,7 +596,8 @@ export function sync<R>(callback: SyncCallback<R>): Promise<R> {
 
 /**
  * Runs tasks from the callback concurrently. The first task to complete wins; the promise resolves or rejects with that result.
- * All other tasks are canceled when the first settles (scope is aborted).
+ * All other tasks are canceled when the first settles (scope is aborted). A task canceled through its own handle
+ * (`t.cancel()`) is dropped from the race instead of settling it.
  * Callback receives TaskloomContext (`{ task, scope }`); use `task(work)` or `task(name, work)` to start tasks.
  *
  * @example
@@ -216,33 +610,14 @@ export function race<T>(callback: SyncCallback<unknown>): Promise<T> {
   return (async () => {
     pushScope("race");
     try {
-      const controller = new AbortController();
-      const scope: Scope = {
-        signal: controller.signal,
-        abort: (reason?: CancelReason | unknown) => controller.abort(reason),
-      };
-      const parentScope = getCurrentScope();
-      if (parentScope) {
-        parentScope.signal.addEventListener(
-          "abort",
-          () => controller.abort(parentScope.signal.reason),
-          { once: true },
-        );
-      }
-      const entries: ScopeStorage["entries"] = [];
-      const parentStore = getCurrentScopeStorage();
-      const store: ScopeStorage = {
-        scope,
-        entries,
-        ...(parentStore?.deadlineMs && { deadlineMs: parentStore.deadlineMs }),
-      };
+      const { controller, scope, entries, store } = createLinkedScope();
       const { tasks, ctx } = createSyncContext(scope);
       return await runWithScopeStorage(store, async () => {
         await callback(ctx);
         if (tasks.length === 0) {
           throw new Error("race: callback did not start any tasks");
         }
-        return Promise.race(tasks).then(
+        return raceUnlessSelfCanceled(scope, tasks).then(
           (value) => {
             warnOrphanTasksIfStrict(entries);
             controller.abort({ type: "scope-closed" });
@@ -263,9 +638,110 @@ export function race<T>(callback: SyncCallback<unknown>): Promise<T> {
   })();
 }
 
+/**
+ * Runs tasks from the callback concurrently. Resolves with the first task to **fulfill**; failures are tolerated
+ * (Promise.any semantics). As soon as one task fulfills, the scope is aborted so the other tasks are canceled.
+ * When every task fails, rejects with an AggregateError whose `errors` hold each failure and whose `taskNames` hold each task's name.
+ * Callback receives TaskloomContext (`{ task, scope }`); use `task(work)` or `task(name, work)` to start tasks.
+ *
+ * @example
+ * const config = await any(async ({ task }) => {
+ *   task("mirror-a", (signal) => fetchFrom(mirrorA, signal));
+ *   task("mirror-b", (signal) => fetchFrom(mirrorB, signal));
+ * });
+ */
+export function any<T>(callback: SyncCallback<unknown>): Promise<T> {
+  return (async () => {
+    pushScope("any");
+    try {
+      const { controller, scope, entries, store } = createLinkedScope();
+      const { tasks, ctx } = createSyncContext(scope);
+      return await runWithScopeStorage(store, async () => {
+        try {
+          await callback(ctx);
+          if (tasks.length === 0) {
+            throw new Error("any: callback did not start any tasks");
+          }
+          return (await firstFulfilled("any", tasks)) as T;
+        } finally {
+          controller.abort({ type: "scope-closed" });
+          warnOrphanTasksIfStrict(entries);
+        }
+      });
+    } finally {
+      popScope();
+    }
+  })();
+}
+
+/**
+ * Runs tasks from the callback concurrently and resolves once `n` of them have fulfilled, returning those results
+ * (in completion order) with their task names. Rejects as soon as success becomes impossible (more than `m - n` of the
+ * `m` tasks failed) with an AggregateError holding the failures and their `taskNames`. On either decision the scope is
+ * aborted so stragglers are canceled. Throws synchronously when `n` is not an integer >= 1; rejects when the callback
+ * starts fewer than `n` tasks.
+ *
+ * @example
+ * const acks = await quorum(2, async ({ task }) => {
+ *   task("store-a", (signal) => writeTo(storeA, record, signal));
+ *   task("store-b", (signal) => writeTo(storeB, record, signal));
+ *   task("store-c", (signal) => writeTo(storeC, record, signal));
+ * });
+ */
+export function quorum<T>(n: number, callback: SyncCallback<unknown>): Promise<QuorumResult<T>[]> {
+  if (typeof n !== "number" || n < 1 || Math.floor(n) !== n) {
+    throw new Error(`Quorum must be an integer >= 1, got: ${n}`);
+  }
+  return (async () => {
+    pushScope("quorum");
+    try {
+      const { controller, scope, entries, store } = createLinkedScope();
+      const { tasks, ctx } = createSyncContext(scope);
+      return await runWithScopeStorage(store, async () => {
+        try {
+          await callback(ctx);
+          if (tasks.length < n) {
+            throw new Error(`quorum: callback started ${tasks.length} tasks but quorum needs ${n}`);
+          }
+          return await new Promise<QuorumResult<T>[]>((resolve, reject) => {
+            const successes: QuorumResult<T>[] = [];
+            const failures: { name?: string; error: unknown }[] = [];
+            for (const t of tasks) {
+              t.then(
+                (value) => {
+                  successes.push({ ...(t.name !== undefined && { name: t.name }), value: value as T });
+                  if (successes.length === n) resolve(successes.slice());
+                },
+                (error) => {
+                  failures.push({ name: t.name, error });
+                  if (failures.length === tasks.length - n + 1) {
+                    reject(
+                      taskFailuresError(
+                        `quorum: needed ${n} of ${tasks.length} tasks but ${failures.length} failed`,
+                        failures.map((f) => f.error),
+                        failures.map((f) => f.name),
+                      ),
+                    );
+                  }
+                },
+              );
+            }
+          });
+        } finally {
+          controller.abort({ type: "scope-closed" });
+          warnOrphanTasksIfStrict(entries);
+        }
+      });
+    } finally {
+      popScope();
+    }
+  })();
+}
+
 /**
  * Runs tasks from the callback concurrently. Returns as soon as the first task settles (resolve or reject).
- * Other tasks keep running in the scope; the scope waits for all to settle before closing.
+ * Other tasks keep running in the scope; the scope waits for all to settle before closing. A task canceled through its
+ * own handle (`t.cancel()`) does not count as settling first.
  * Callback receives TaskloomContext (`{ task, scope }`); use `task(work)` or `task(name, work)` to start tasks.
  */
 export function rush<T>(callback: SyncCallback<unknown>): Promise<T> {
@@ -279,7 +755,7 @@ export function rush<T>(callback: SyncCallback<unknown>): Promise<T> {
           throw new Error("rush: callback did not start any tasks");
         }
         try {
-          return (await Promise.race(tasks)) as T;
+          return (await raceUnlessSelfCanceled(scope, tasks)) as T;
         } finally {
           await Promise.allSettled(tasks);
         }
@@ -427,3 +903,171 @@ export function spawnScope(callback: SyncCallback<void>): Promise<void> {
     }
   })();
 }
+
+/**
+ * Restart strategy for {@link supervise}: which children restart when one fails.
+ * - `one-for-one`: only the failed child.
+ * - `one-for-all`: every child.
+ * - `rest-for-one`: the failed child and every child started after it.
+ */
+export type SupervisorStrategy = "one-for-one" | "one-for-all" | "rest-for-one";
+
+/**
+ * Options for {@link supervise}.
+ * @property strategy - Restart strategy (default "one-for-one")
+ * @property maxRestarts - Maximum restarts allowed within `withinMs` before the supervisor fails (default 3)
+ * @property withinMs - Sliding window in ms for counting restarts (default 5000)
+ * @property backoff - Delay in ms before restarting a failed child: a fixed number, or a function of the child's restart count (1-based). Default 0
+ */
+export type SupervisorOptions = {
+  strategy?: SupervisorStrategy;
+  maxRestarts?: number;
+  withinMs?: number;
+  backoff?: number | ((restart: number) => number);
+};
+
+const SUPERVISOR_STRATEGIES = new Set<SupervisorStrategy>(["one-for-one", "one-for-all", "rest-for-one"]);
+const DEFAULT_MAX_RESTARTS = 3;
+const DEFAULT_RESTART_WINDOW_MS = 5000;
+
+/**
+ * Runs the callback like {@link sync}, but children started via `task(work)` are restarted when they fail instead of
+ * failing the scope. Each restart runs `work` again with a fresh AbortSignal; children restarted because a sibling failed
+ * (one-for-all, rest-for-one) are aborted with a `{ type: "restart" }` reason first. When more than `maxRestarts`
+ * restarts happen within `withinMs`, the supervisor gives up: it rejects with the failing child's error and its scope is
+ * aborted, canceling every child. Resolves with the callback result once the callback and all children have completed.
+ * The Task returned by `task(work)` represents the child across restarts; canceling it stops the child without failing the supervisor.
+ * Lazy children (`task.lazy(work)`) are restarted the same way once started, but are not awaited.
+ * Validates strategy, maxRestarts, withinMs and backoff (throws synchronously otherwise).
+ *
+ * @example
+ * await supervise(async ({ task }) => {
+ *   task("queue-consumer", (signal) => consumeQueue(signal));
+ *   task("ws-pump", (signal) => pumpWebsocket(signal));
+ * }, { strategy: "one-for-one", maxRestarts: 5, withinMs: 10_000, backoff: 100 });
+ */
+export function supervise<R>(callback: SyncCallback<R>, options?: SupervisorOptions): Promise<R> {
+  const {
+    strategy = "one-for-one",
+    maxRestarts = DEFAULT_MAX_RESTARTS,
+    withinMs = DEFAULT_RESTART_WINDOW_MS,
+    backoff = 0,
+  } = options ?? {};
+  if (!SUPERVISOR_STRATEGIES.has(strategy)) {
+    throw new Error(`strategy must be "one-for-one", "one-for-all" or "rest-for-one", got: ${strategy}`);
+  }
+  if (typeof maxRestarts !== "number" || maxRestarts < 0 || Math.floor(maxRestarts) !== maxRestarts) {
+    throw new Error(`maxRestarts must be an integer >= 0, got: ${maxRestarts}`);
+  }
+  if (typeof withinMs !== "number" || !(withinMs >= 0)) {
+    throw new Error(`withinMs must be a number >= 0, got: ${withinMs}`);
+  }
+  if (typeof backoff !== "function" && (typeof backoff !== "number" || !(backoff >= 0))) {
+    throw new Error(`backoff must be a number >= 0 or a function, got: ${backoff}`);
+  }
+  return runInScope(
+    async (scope) => {
+      pushScope("supervise");
+      try {
+        const restartChildren: Array<() => void> = [];
+        const restartTimes: number[] = [];
+
+        /** Records a restart; returns false when the restart intensity (maxRestarts within withinMs) is exceeded. */
+        const allowRestart = (): boolean => {
+          const now = Date.now();
+          while (restartTimes.length > 0 && now - restartTimes[0] > withinMs) restartTimes.shift();
+          if (restartTimes.length >= maxRestarts) return false;
+          restartTimes.push(now);
+          return true;
+        };
+
+        const restartSiblings = (index: number): void => {
+          if (strategy === "one-for-one") return;
+          const from = strategy === "one-for-all" ? 0 : index + 1;
+          for (let i = from; i < restartChildren.length; i++) {
+            if (i !== index) restartChildren[i]();
+          }
+        };
+
+        const superviseWork = <T>(
+          index: number,
+          work: (signal: AbortSignal) => Promise<T>,
+        ): ((signal: AbortSignal) => Promise<T>) => {
+          let current: AbortController | undefined;
+          let restartRequested = false;
+          restartChildren[index] = () => {
+            if (!current) return;
+            restartRequested = true;
+            current.abort({ type: "restart" });
+          };
+          return async (signal) => {
+            let restarts = 0;
+            for (;;) {
+              const controller = new AbortController();
+              const onAbort = (): void => controller.abort(signal.reason);
+              signal.addEventListener("abort", onAbort, { once: true });
+              current = controller;
+              restartRequested = false;
+              try {
+                const value = await work(controller.signal);
+                if (!restartRequested) return value;
+              } catch (error) {
+                if (signal.aborted) throw error;
+                if (!restartRequested) {
+                  if (!allowRestart()) throw error;
+                  restartSiblings(index);
+                  restarts++;
+                  const delayMs = typeof backoff === "function" ? backoff(restarts) : backoff;
+                  if (delayMs > 0) await sleep(delayMs, signal);
+                }
+              } finally {
+                current = undefined;
+                signal.removeEventListener("abort", onAbort);
+              }
+            }
+          };
+        };
+
+        const tasks: Task<unknown>[] = [];
+        const startChild = (
+          first: string | ((signal: AbortSignal) => Promise<unknown>),
+          second: ((signal: AbortSignal) => Promise<unknown> | TaskOptions) | undefined,
+          lazy: boolean,
+        ): Task<unknown> => {
+          const { work, name, options } = parseTaskArgs(first, second);
+          checkTaskTimeout(options);
+          // Each restart runs through the policy; timeoutMs bounds the child across restarts.
+          const supervised = superviseWork(restartChildren.length, withTaskPolicy(work, options));
+          const timeoutMs = options?.timeoutMs;
+          const t: Task<unknown> = runTask(
+            timeoutMs === undefined ? supervised : withTaskTimeout(supervised, timeoutMs, options!, () => t),
+            {
+              signal: scope.signal,
+              ...(name && { name }),
+              ...(lazy && { lazy }),
+            },
+          );
+          // As in sync, lazy children are not awaited (attaching a handler would start them): one never started is
+          // canceled when the scope closes.
+          if (!lazy) tasks.push(attachRejectionHandler(t));
+          return t;
+        };
+        const ctx: TaskloomContext = {
+          task: attachHelpersToTask(
+            scope,
+            (first, second) => startChild(first, second, false),
+            (first, second) => startChild(first, second, true),
+          ),
+          scope,
+        };
+        const resultPromise = callback(ctx);
+        resultPromise.catch(() => {});
+        await Promise.all(tasks.map((t) => awaitUnlessSelfCanceled(scope, t)));
+        return await resultPromise;
+      } finally {
+        popScope();
+      }
+    },
+    getCurrentScope(),
+  );
+}
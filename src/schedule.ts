@@ -0,0 +1,318 @@
+/**
+ * Scheduled tasks – task.every, task.at and task.cron run work on a timer as named child tasks of the owning scope,
+ * and stop when the scope closes. Includes a small parser for 5-field cron expressions.
+ */
+
+import { runTask, type Task, type TaskLifecycleHook } from "./task.js";
+import { getCurrentScopeStorage, runWithScopeStorage } from "./scope.js";
+
+/**
+ * What a periodic schedule does when a run is due while the previous run is still in progress: `"skip"` the due run,
+ * `"queue"` it to start as soon as the previous run settles (at most one queued run), or `"cancel-previous"` run.
+ */
+export type ScheduleOverlap = "skip" | "queue" | "cancel-previous";
+
+/**
+ * Options shared by task.at and task.cron.
+ * @property name - Base name of the run tasks; runs are named `${name}#0`, `${name}#1`, ... (default "at" / "cron")
+ * @property lifecycleHooks - Hooks invoked for every run task
+ */
+export type ScheduleOptions = {
+  name?: string;
+  lifecycleHooks?: TaskLifecycleHook | TaskLifecycleHook[];
+};
+
+/**
+ * Options for task.cron.
+ * @property overlap - What to do when a run is due while the previous one is in progress (default "skip")
+ */
+export type CronOptions = ScheduleOptions & { overlap?: ScheduleOverlap };
+
+/**
+ * Options for task.every.
+ * @property overlap - What to do when a run is due while the previous one is in progress (default "skip")
+ * @property jitter - Random extra delay per run, between 0 and `jitter` ms (default 0), to spread pollers out
+ * @property startImmediately - Run once right away instead of after the first interval (default false)
+ */
+export type EveryOptions = CronOptions & { jitter?: number; startImmediately?: boolean };
+
+/**
+ * Handle for a schedule started by task.every, task.at or task.cron. The schedule also stops when its scope closes,
+ * which cancels a run in progress.
+ */
+export type Schedule = {
+  /** Stops scheduling further runs. A run in progress is left to finish. */
+  stop(): void;
+  /** Number of runs started so far. */
+  readonly runs: number;
+  /** When the next run is due, or undefined once the schedule is stopped or has no further runs. */
+  readonly nextRunAt: Date | undefined;
+};
+
+/** A parsed cron expression. */
+export type CronExpression = {
+  /** The next matching minute strictly after `after` (local time), or undefined if none within the next 5 years. */
+  next(after: Date): Date | undefined;
+};
+
+/** setTimeout's maximum delay; longer waits are split into several timers. */
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+const OVERLAP_MODES = new Set<ScheduleOverlap>(["skip", "queue", "cancel-previous"]);
+
+/**
+ * Runs work at the times returned by nextAt (absolute ms; called with the previous due time, or undefined for the
+ * first run) until nextAt returns undefined, stop() is called or signal aborts. Each run is a task named
+ * `${name}#${n}` bound to signal and run in the scope storage current at creation.
+ */
+function runSchedule(
+  signal: AbortSignal,
+  work: (signal: AbortSignal) => Promise<unknown>,
+  nextAt: (previous: number | undefined) => number | undefined,
+  options: CronOptions & { name: string },
+): Schedule {
+  const { name, lifecycleHooks, overlap = "skip" } = options;
+  if (!OVERLAP_MODES.has(overlap)) {
+    throw new Error(`Schedule overlap must be "skip", "queue" or "cancel-previous", got: ${overlap}`);
+  }
+  const store = getCurrentScopeStorage();
+  let runs = 0;
+  let current: Task<unknown> | undefined;
+  let queued = false;
+  let stopped = false;
+  let dueAt: number | undefined;
+  let timerId: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = (): void => {
+    stopped = true;
+    queued = false;
+    dueAt = undefined;
+    clearTimeout(timerId);
+    signal.removeEventListener("abort", stop);
+  };
+
+  const launch = (): void => {
+    const t = runTask((runSignal) => (store ? runWithScopeStorage(store, () => work(runSignal)) : work(runSignal)), {
+      signal,
+      name: `${name}#${runs++}`,
+      ...(lifecycleHooks && { lifecycleHooks }),
+    });
+    current = t;
+    // A failed run is reported through its task (hooks, debug); the schedule keeps going.
+    t.then(undefined, () => {}).then(() => {
+      if (current !== t) return;
+      current = undefined;
+      if (queued && !stopped) {
+        queued = false;
+        launch();
+      }
+    });
+  };
+
+  const tick = (): void => {
+    if (stopped) return;
+    if (!current) launch();
+    else if (overlap === "queue") queued = true;
+    else if (overlap === "cancel-previous") {
+      current.cancel();
+      launch();
+    }
+    arm(nextAt(dueAt));
+  };
+
+  function arm(at: number | undefined): void {
+    if (stopped) return;
+    if (at === undefined) {
+      stop();
+      return;
+    }
+    dueAt = at;
+    const wait = (): void => {
+      const remaining = at - Date.now();
+      timerId = remaining > MAX_TIMEOUT_MS ? setTimeout(wait, MAX_TIMEOUT_MS) : setTimeout(tick, Math.max(0, remaining));
+    };
+    wait();
+  }
+
+  if (signal.aborted) {
+    stopped = true;
+  } else {
+    signal.addEventListener("abort", stop, { once: true });
+    arm(nextAt(undefined));
+  }
+
+  return {
+    stop,
+    get runs() {
+      return runs;
+    },
+    get nextRunAt() {
+      return dueAt === undefined ? undefined : new Date(dueAt);
+    },
+  };
+}
+
+/**
+ * Runs work every `ms` milliseconds (fixed rate, measured from each due time) as child tasks bound to `signal`.
+ * Validates ms is a number > 0 and jitter a number >= 0 (throws synchronously otherwise).
+ * @param ms - Interval in milliseconds
+ * @param work - Async work per run; receives the run task's signal
+ * @param options - EveryOptions (overlap, jitter, startImmediately, name, lifecycleHooks)
+ * @param signal - AbortSignal of the owning scope; when aborted, the schedule stops and a run in progress is canceled
+ */
+export function every(
+  ms: number,
+  work: (signal: AbortSignal) => Promise<unknown>,
+  options: EveryOptions,
+  signal: AbortSignal,
+): Schedule {
+  const { jitter = 0, startImmediately = false, name = "every" } = options;
+  if (typeof ms !== "number" || !(ms > 0)) {
+    throw new Error(`task.every ms must be a number > 0, got: ${ms}`);
+  }
+  if (typeof jitter !== "number" || !(jitter >= 0)) {
+    throw new Error(`task.every jitter must be a number >= 0, got: ${jitter}`);
+  }
+  // The unjittered due time, so jitter does not accumulate as drift.
+  let base = Date.now();
+  return runSchedule(
+    signal,
+    work,
+    (previous) => {
+      if (previous === undefined && startImmediately) return base;
+      base = Math.max(base + ms, Date.now());
+      return base + Math.random() * jitter;
+    },
+    { ...options, name },
+  );
+}
+
+/**
+ * Runs work once at `date` (right away if it is in the past) as a child task bound to `signal`.
+ * Validates date is a valid Date or epoch milliseconds (throws synchronously otherwise).
+ * @param date - When to run, as a Date or epoch milliseconds
+ * @param work - Async work; receives the run task's signal
+ * @param options - ScheduleOptions (name, lifecycleHooks)
+ * @param signal - AbortSignal of the owning scope; when aborted before the due time, work never runs
+ */
+export function at(
+  date: Date | number,
+  work: (signal: AbortSignal) => Promise<unknown>,
+  options: ScheduleOptions,
+  signal: AbortSignal,
+): Schedule {
+  const dueAt = date instanceof Date ? date.getTime() : date;
+  if (typeof dueAt !== "number" || Number.isNaN(dueAt)) {
+    throw new Error(`task.at date must be a valid Date or epoch milliseconds, got: ${String(date)}`);
+  }
+  return runSchedule(signal, work, (previous) => (previous === undefined ? dueAt : undefined), {
+    ...options,
+    name: options.name ?? "at",
+  });
+}
+
+/**
+ * Runs work at the times matching a cron expression (local time; see {@link parseCron}) as child tasks bound to `signal`.
+ * Throws synchronously for an invalid expression.
+ * @param expression - 5-field cron expression, e.g. "*\/5 * * * *"
+ * @param work - Async work per run; receives the run task's signal
+ * @param options - CronOptions (overlap, name, lifecycleHooks)
+ * @param signal - AbortSignal of the owning scope; when aborted, the schedule stops and a run in progress is canceled
+ */
+export function cron(
+  expression: string,
+  work: (signal: AbortSignal) => Promise<unknown>,
+  options: CronOptions,
+  signal: AbortSignal,
+): Schedule {
+  const parsed = parseCron(expression);
+  return runSchedule(signal, work, (previous) => parsed.next(new Date(previous ?? Date.now()))?.getTime(), {
+    ...options,
+    name: options.name ?? "cron",
+  });
+}
+
+type CronField = { min: number; max: number; label: string };
+
+const CRON_FIELDS: readonly CronField[] = [
+  { min: 0, max: 59, label: "minute" },
+  { min: 0, max: 23, label: "hour" },
+  { min: 1, max: 31, label: "day of month" },
+  { min: 1, max: 12, label: "month" },
+  { min: 0, max: 7, label: "day of week" },
+];
+
+/** Parses one cron field (`*`, `n`, `a-b`, lists and `/step`) into the set of values it matches. */
+function parseCronField(source: string, field: CronField, expression: string): Set<number> {
+  const invalid = (): Error =>
+    new Error(`Invalid cron expression "${expression}": bad ${field.label} field "${source}"`);
+  const values = new Set<number>();
+  for (const part of source.split(",")) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) throw invalid();
+    const [, start, end, step] = match;
+    if (start === "*" && end !== undefined) throw invalid();
+    const from = start === "*" ? field.min : Number(start);
+    // "n/step" runs from n to the field's max, like "n-max/step".
+    const to = start === "*" ? field.max : end !== undefined ? Number(end) : step !== undefined ? field.max : from;
+    const by = step === undefined ? 1 : Number(step);
+    if (from < field.min || to > field.max || from > to || by < 1) throw invalid();
+    for (let v = from; v <= to; v += by) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parses a 5-field cron expression: minute (0-59), hour (0-23), day of month (1-31), month (1-12) and day of week
+ * (0-7, 0 and 7 are Sunday). Each field is `*` or a comma-separated list of values and ranges (`a-b`), each optionally
+ * with a step (`*\/15`, `1-30/2`, `5/10`). As in standard cron, when both day of month and day of week are restricted
+ * (neither starts with `*`), a day matching either runs; otherwise a day must match both. Names (`MON`, `JAN`) and `@` macros are not supported.
+ * Throws synchronously for an invalid expression.
+ *
+ * @example
+ * parseCron("0 9 * * 1-5").next(new Date()); // next weekday at 09:00
+ */
+export function parseCron(expression: string): CronExpression {
+  const sources = typeof expression === "string" ? expression.trim().split(/\s+/) : [];
+  if (sources.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${sources.length}`);
+  }
+  const [minutes, hours, days, months, weekdays] = sources.map((source, i) =>
+    parseCronField(source, CRON_FIELDS[i], expression),
+  );
+  if (weekdays.delete(7)) weekdays.add(0);
+  // As in Vixie cron, a day field starting with "*" (including "*/n") counts as unrestricted.
+  const anyDay = sources[2].startsWith("*");
+  const anyWeekday = sources[4].startsWith("*");
+  const dayMatches = (date: Date): boolean => {
+    const byDay = days.has(date.getDate());
+    const byWeekday = weekdays.has(date.getDay());
+    if (anyDay || anyWeekday) return byDay && byWeekday;
+    return byDay || byWeekday;
+  };
+
+  return {
+    next(after: Date): Date | undefined {
+      const date = new Date(after.getTime());
+      date.setSeconds(0, 0);
+      date.setMinutes(date.getMinutes() + 1);
+      const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+      while (date.getTime() <= limit) {
+        if (!months.has(date.getMonth() + 1)) {
+          date.setMonth(date.getMonth() + 1, 1);
+          date.setHours(0, 0);
+        } else if (!dayMatches(date)) {
+          date.setDate(date.getDate() + 1);
+          date.setHours(0, 0);
+        } else if (!hours.has(date.getHours())) {
+          date.setHours(date.getHours() + 1, 0);
+        } else if (!minutes.has(date.getMinutes())) {
+          date.setMinutes(date.getMinutes() + 1);
+        } else {
+          return date;
+        }
+      }
+      return undefined;
+    },
+  };
+}
@@ -77,6 +77,7 @@ export function getScopeDeadlineRemainingMs(): number | undefined {
 
 /**
  * When strict mode is on, warns for any task in entries that has not settled (completed, failed, or canceled).
+ * Lazy tasks still in "created" state are not orphans: they never ran and are canceled when the scope closes.
  * @internal
  */
 export function warnOrphanTasksIfStrict(entries: ScopeTaskEntry[]): void {
@@ -84,6 +85,7 @@ export function warnOrphanTasksIfStrict(entries: ScopeTaskEntry[]): void {
   for (const entry of entries) {
     const status = entry.task.status;
     if (
+      status !== "created" &&
       status !== "completed" &&
       status !== "failed" &&
       status !== "canceled"
@@ -98,24 +100,36 @@ export function warnOrphanTasksIfStrict(entries: ScopeTaskEntry[]): void {
 
 /**
  * Registers a task (and optional work promise for strict-cancellation) when the task's signal matches the scope.
+ * Returns the entry so a lazy task can track its work once it starts, or undefined when the task was not registered.
  * @internal
  */
 export function registerScopeTask(
   signal: AbortSignal | undefined,
   task: Task<unknown>,
   workPromise?: Promise<unknown>,
-): void {
+): ScopeTaskEntry | undefined {
   const store = scopeStorage.getStore();
-  if (store && signal === store.scope.signal) {
-    const entry: ScopeTaskEntry = { task, workSettled: false };
-    store.entries.push(entry);
-    if (workPromise) {
-      store.pendingWorkPromises?.push(workPromise);
-      workPromise.finally(() => {
-        entry.workSettled = true;
-      });
-    }
-  }
+  if (!store || signal !== store.scope.signal) return undefined;
+  const entry: ScopeTaskEntry = { task, workSettled: false };
+  store.entries.push(entry);
+  if (workPromise) trackScopeTaskWork(store, entry, workPromise);
+  return entry;
+}
+
+/**
+ * Adds a task's work promise to the scope's pending work (for strict-cancellation) and marks the entry settled when it settles.
+ * Used by registerScopeTask and by lazy tasks, which are registered before their work starts.
+ * @internal
+ */
+export function trackScopeTaskWork(
+  store: ScopeStorage,
+  entry: ScopeTaskEntry,
+  workPromise: Promise<unknown>,
+): void {
+  store.pendingWorkPromises?.push(workPromise);
+  workPromise.finally(() => {
+    entry.workSettled = true;
+  });
 }
 
 /**
@@ -0,0 +1,173 @@
+/**
+ * select – wait on several cases (tasks, timers, async iterators, signals) and run the handler of the first ready one.
+ * Losing cases are detached: timers cleared, abort listeners removed, iterators closed with return().
+ */
+
+/** A case built with the {@link SelectCases} builders; `R` is the type its handler produces. */
+export type SelectCase<R> = {
+  readonly kind: "task" | "sleep" | "iterator" | "signal";
+  /** @internal Starts waiting; calls ready(run) when the case fires or fail(error) when it errors. Returns a detach function. */
+  readonly attach: (
+    ready: (run: () => R | PromiseLike<R>) => void,
+    fail: (error: unknown) => void,
+  ) => () => void;
+  /** The case's handler; carries `R` for result inference. */
+  readonly handle: (...args: never[]) => R | PromiseLike<R>;
+};
+
+/** Case builders passed to the {@link select} callback. */
+export type SelectCases = {
+  /** Ready when the task (or any PromiseLike) fulfills; a rejection rejects the select. */
+  task<T, R>(task: PromiseLike<T>, handle: (value: T) => R | PromiseLike<R>): SelectCase<R>;
+  /** Ready after `ms` ms; the timer is cleared when another case wins. */
+  sleep<R>(ms: number, handle: () => R | PromiseLike<R>): SelectCase<R>;
+  /** Ready when the iterator's pending `next()` resolves (including `done: true`); closed with `return()` when another case wins. */
+  iterator<T, R>(
+    source: AsyncIterator<T> | AsyncIterable<T>,
+    handle: (result: IteratorResult<T>) => R | PromiseLike<R>,
+  ): SelectCase<R>;
+  /** Ready when the signal aborts (immediately if already aborted); the handler receives `signal.reason`. */
+  signal<R>(signal: AbortSignal, handle: (reason: unknown) => R | PromiseLike<R>): SelectCase<R>;
+};
+
+/** Result type of {@link select}: union of the handler results of every case. */
+export type SelectResult<C> = C extends SelectCase<infer R> ? R : never;
+
+const cases: SelectCases = {
+  task(task, handle) {
+    return {
+      kind: "task",
+      handle,
+      attach(ready, fail) {
+        task.then(
+          (value) => ready(() => handle(value)),
+          (error) => fail(error),
+        );
+        // A PromiseLike cannot be unsubscribed from; the settled callback is ignored once another case has won.
+        return () => {};
+      },
+    };
+  },
+  sleep(ms, handle) {
+    return {
+      kind: "sleep",
+      handle,
+      attach(ready) {
+        const id = setTimeout(() => ready(handle), ms);
+        return () => clearTimeout(id);
+      },
+    };
+  },
+  iterator(source, handle) {
+    return {
+      kind: "iterator",
+      handle,
+      attach(ready, fail) {
+        const iterator =
+          Symbol.asyncIterator in source ? source[Symbol.asyncIterator]() : source;
+        iterator.next().then(
+          (result) => ready(() => handle(result)),
+          (error) => fail(error),
+        );
+        return () => {
+          iterator.return?.().then(undefined, () => {});
+        };
+      },
+    };
+  },
+  signal(signal, handle) {
+    return {
+      kind: "signal",
+      handle,
+      attach(ready) {
+        if (signal.aborted) {
+          ready(() => handle(signal.reason));
+          return () => {};
+        }
+        const onAbort = (): void => ready(() => handle(signal.reason));
+        signal.addEventListener("abort", onAbort, { once: true });
+        return () => signal.removeEventListener("abort", onAbort);
+      },
+    };
+  },
+};
+
+/**
+ * Waits on several cases at once and runs exactly one handler: the one of the first case to become ready.
+ * Every other case is detached (timers cleared, abort listeners removed, `return()` called on iterators), so a select
+ * inside a long-lived scope leaks neither listeners nor pending iterator reads. The winning iterator is left open.
+ * When the scope's signal aborts first, all cases are detached and the Promise rejects with the signal's reason.
+ * A rejected task case or a failing iterator rejects the select (after detaching the other cases).
+ *
+ * @param build - Receives the {@link SelectCases} builders and returns the cases to wait on (at least one)
+ * @param signal - AbortSignal (e.g. scope.signal); when aborted, the select rejects
+ * @returns Promise with the winning handler's result
+ *
+ * @example
+ * const next = await task.select((on) => [
+ *   on.iterator(messages, (r) => (r.done ? "closed" : r.value)),
+ *   on.sleep(1000, () => "idle"),
+ *   on.signal(stopSignal, () => "stopped"),
+ * ]);
+ */
+export function select<C extends SelectCase<unknown>>(
+  build: (on: SelectCases) => readonly C[],
+  signal: AbortSignal,
+): Promise<SelectResult<C>> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  const selected = build(cases);
+  if (selected.length === 0) {
+    return Promise.reject(new Error("select: no cases given"));
+  }
+  return new Promise<SelectResult<C>>((resolve, reject) => {
+    const detachers: Array<(() => void) | undefined> = [];
+    let done = false;
+
+    const detachExcept = (winner: number): void => {
+      signal.removeEventListener("abort", onAbort);
+      detachers.forEach((detach, i) => {
+        if (i !== winner) detach?.();
+      });
+    };
+    const onAbort = (): void => {
+      if (done) return;
+      done = true;
+      detachExcept(-1);
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    for (let i = 0; i < selected.length && !done; i++) {
+      const detach = selected[i].attach(
+        (run) => {
+          if (done) return;
+          done = true;
+          detachExcept(i);
+          try {
+            resolve(run() as SelectResult<C> | PromiseLike<SelectResult<C>>);
+          } catch (err) {
+            reject(err);
+          }
+        },
+        (error) => {
+          if (done) return;
+          done = true;
+          detachExcept(i);
+          reject(error);
+        },
+      );
+      detachers[i] = detach;
+    }
+  });
+}
+
+/**
+ * Factory for task.select: returns a select bound to the current scope's signal so scope cancellation detaches every case.
+ */
+export function createSelect(signal: AbortSignal): <C extends SelectCase<unknown>>(
+  build: (on: SelectCases) => readonly C[],
+) => Promise<SelectResult<C>> {
+  return <C extends SelectCase<unknown>>(build: (on: SelectCases) => readonly C[]) => select(build, signal);
+}
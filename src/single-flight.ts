@@ -0,0 +1,112 @@
+/**
+ * Single-flight deduplication – concurrent callers of the same key share one in-flight execution, across scopes. Each
+ * caller gets its own Task; the shared work is aborted only when the last waiter is gone.
+ */
+
+import { runTask, type Task } from "./task.js";
+import { getCurrentScope } from "./scope.js";
+
+/**
+ * Options for {@link singleFlight}.
+ * @property signal - AbortSignal of the caller (default: the current scope's signal); on abort only this caller detaches
+ * @property name - Name of the caller's task (debug, hooks, error messages)
+ */
+export type SingleFlightOptions = {
+  signal?: AbortSignal;
+  name?: string;
+};
+
+/** A shared in-flight execution and the number of callers waiting for it. @internal */
+export type Flight = {
+  controller: AbortController;
+  promise: Promise<unknown>;
+  waiters: number;
+};
+
+/**
+ * In-flight executions of singleFlight by key; an entry is removed once its work settles or its last waiter detaches.
+ * @internal
+ */
+export const globalFlights = new Map<unknown, Flight>();
+
+/**
+ * Returns task work that joins the flight for key in flights (starting work if none is in flight) and settles with its
+ * outcome. When the task's signal aborts, the caller detaches; the last caller to detach aborts the shared work with
+ * its reason.
+ * @internal
+ */
+export function joinFlight<T>(
+  flights: Map<unknown, Flight>,
+  key: unknown,
+  work: (signal: AbortSignal) => Promise<T>,
+): (signal: AbortSignal) => Promise<T> {
+  return (signal) => {
+    let flight = flights.get(key);
+    if (!flight) {
+      const controller = new AbortController();
+      const started: Flight = {
+        controller,
+        promise: new Promise((resolve) => resolve(work(controller.signal))),
+        waiters: 0,
+      };
+      const forget = (): void => {
+        if (flights.get(key) === started) flights.delete(key);
+      };
+      started.promise.then(forget, forget);
+      flights.set(key, started);
+      flight = started;
+    }
+    const joined = flight;
+    joined.waiters++;
+    return new Promise<T>((resolve, reject) => {
+      const detach = (): void => {
+        signal.removeEventListener("abort", onAbort);
+        joined.waiters--;
+      };
+      const onAbort = (): void => {
+        detach();
+        reject(signal.reason);
+        if (joined.waiters === 0) {
+          if (flights.get(key) === joined) flights.delete(key);
+          joined.controller.abort(signal.reason);
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      joined.promise.then(
+        (value) => {
+          detach();
+          resolve(value as T);
+        },
+        (err: unknown) => {
+          detach();
+          reject(err);
+        },
+      );
+    });
+  };
+}
+
+/**
+ * Runs work once per key for all concurrent callers, even from different scopes: the first caller starts
+ * `work(signal)`, later callers with the same key join it while it is in flight. Each caller gets its own Task (with
+ * its own `onCancel`), bound to `options.signal` or the current scope's signal. Canceling a caller (its scope closing,
+ * or `t.cancel()`) only detaches that caller; the shared work's signal aborts, with that caller's reason, once the last
+ * waiter is gone. A key is free again as soon as its work settles, so results are not cached.
+ * @param key - Deduplication key (compared with Map semantics)
+ * @param work - Shared async work; receives a signal that aborts when every waiter has detached
+ * @param options - SingleFlightOptions (signal, name)
+ *
+ * @example
+ * const config = await singleFlight(`config:${tenant}`, (signal) => fetchConfig(tenant, signal));
+ */
+export function singleFlight<T>(
+  key: unknown,
+  work: (signal: AbortSignal) => Promise<T>,
+  options: SingleFlightOptions = {},
+): Task<T> {
+  const signal = options.signal ?? getCurrentScope()?.signal;
+  return runTask(joinFlight(globalFlights, key, work), {
+    ...(signal && { signal }),
+    ...(options.name && { name: options.name }),
+  });
+}
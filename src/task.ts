@@ -4,7 +4,14 @@
  */
 
 import { registerTask, updateTask } from "./debug.js";
-import { hasCurrentScope, registerScopeTask } from "./scope.js";
+import {
+  getCurrentScopeStorage,
+  hasCurrentScope,
+  registerScopeTask,
+  runWithScopeStorage,
+  trackScopeTaskWork,
+  type ScopeTaskEntry,
+} from "./scope.js";
 import { isStrictModeEnabled, strictModeWarn } from "./strict-mode.js";
 
 /**
@@ -17,7 +24,8 @@ export type CancelReason =
   | { type: "timeout"; ms: number }
   | { type: "user-abort"; signal: AbortSignal }
   | { type: "scope-closed" }
-  | { type: "parent-canceled"; parent: Task<unknown> };
+  | { type: "parent-canceled"; parent: Task<unknown> }
+  | { type: "restart" };
 
 /**
  * Optional callbacks invoked at task lifecycle points. All callbacks are optional.
@@ -35,7 +43,7 @@ export type TaskLifecycleHook = {
   onTaskCancel?(task: Task, reason: unknown): void;
 };
 
-/** Lifecycle state of a Task: created, running, completed, failed, or canceled. */
+/** Lifecycle state of a Task: created (lazy, not started yet), running, completed, failed, or canceled. */
 export type TaskStatus =
   | "created"
   | "running"
@@ -55,6 +63,10 @@ export type Task<T = unknown> = {
   readonly name?: string;
   /** Registers a handler to run when the task is canceled. The handler receives the cancellation reason (e.g. from scope.abort(reason)); when the system sets it, reason is a {@link CancelReason}. */
   onCancel(handler: (reason?: CancelReason) => void): void;
+  /** Cancels only this task (siblings and the owning scope are untouched). No-op once the task has settled. When reason is omitted, handlers receive a user-abort reason. */
+  cancel(reason?: CancelReason | unknown): void;
+  /** Starts a lazy task that is still in "created" state. No-op for tasks that are already running or settled. Awaiting (or calling then on) a lazy task also starts it. */
+  start(): void;
 } & PromiseLike<T>;
 
 /**
@@ -68,6 +80,8 @@ export type RunTaskOptions = {
   lifecycleHooks?: TaskLifecycleHook | TaskLifecycleHook[];
   /** When set and signal aborts, the cancellation reason is reported as parent-canceled with this task. Omit when the parent is a scope (not a task). */
   parentTask?: Task<unknown>;
+  /** When true, the task stays in "created" state and work only starts on first await/then or {@link Task.start}. If the signal aborts first, the task is canceled without ever running. */
+  lazy?: boolean;
 };
 
 function normalizeLifecycleHooks(
@@ -90,6 +104,7 @@ function invokeHooks(hooks: TaskLifecycleHook[], fn: (h: TaskLifecycleHook) => v
 /**
  * Creates and runs a Task from async work. The work receives the task's AbortSignal for cancellation.
  * Pass an optional parent signal in options; when it aborts, this task is canceled. Returns an awaitable Task.
+ * With `lazy: true` the work is deferred until the task is first awaited or started; it then runs in the scope it was created in.
  */
 export function runTask<T>(
   work: (signal: AbortSignal) => Promise<T>,
@@ -107,10 +122,11 @@ export function runTask<T>(
   const controller = new AbortController();
   const signal = controller.signal;
   const taskName = options?.name;
-  const debugTaskId = registerTask(taskName);
+  const lazy = options?.lazy === true;
+  const debugTaskId = registerTask(taskName, lazy ? "created" : "running");
   const hooks = normalizeLifecycleHooks(options?.lifecycleHooks);
 
-  let status: TaskStatus = "running";
+  let status: TaskStatus = lazy ? "created" : "running";
   let result: T | undefined;
   let error: unknown;
   const cancelHandlers: Array<(reason?: CancelReason) => void> = [];
@@ -131,12 +147,15 @@ export function runTask<T>(
   }
 
   function transitionToCanceled(reason: unknown): void {
-    if (status !== "running") return;
+    if (status !== "running" && status !== "created") return;
+    const neverStarted = status === "created";
     invokeHooks(hooks, (h) => h.onTaskCancel?.(taskObject, reason));
     status = "canceled";
     updateTask(debugTaskId, "canceled");
     error = reason;
-    if (isStrictModeEnabled() && cancelHandlers.length === 0) {
+    // A lazy task canceled before it started has no work left to settle.
+    if (neverStarted && scopeEntry) scopeEntry.workSettled = true;
+    if (isStrictModeEnabled() && cancelHandlers.length === 0 && !neverStarted) {
       strictModeWarn(
         `Strict mode: task "${taskName ?? "anonymous"}" was canceled but had no onCancel handler registered (ignored cancellation).`,
       );
@@ -212,10 +231,18 @@ export function runTask<T>(
         }
         cancelHandlers.push(handler);
       },
+      cancel(reason?: CancelReason | unknown): void {
+        if (status !== "running" && status !== "created") return;
+        controller.abort(reason ?? { type: "user-abort", signal });
+      },
+      start(): void {
+        start();
+      },
       then<TResult1 = T, TResult2 = never>(
         onFulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
         onRejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
       ): PromiseLike<TResult1 | TResult2> {
+        start();
         return thenablePromise.then(onFulfilled, onRejected) as PromiseLike<TResult1 | TResult2>;
       },
     };
@@ -223,6 +250,28 @@ export function runTask<T>(
   }
 
   let workPromise: Promise<unknown> | undefined;
+  // Scope entry of a lazy task, so its work is tracked (strict cancellation) once it starts.
+  let scopeEntry: ScopeTaskEntry | undefined;
+  // Lazy tasks run in the scope storage they were created in, not wherever they are first awaited.
+  const creationStore = lazy ? getCurrentScopeStorage() : undefined;
+
+  function runWork(): Promise<T> {
+    return creationStore ? runWithScopeStorage(creationStore, () => work(signal)) : work(signal);
+  }
+
+  function start(): void {
+    if (status !== "created") return;
+    status = "running";
+    updateTask(debugTaskId, "running");
+    startTime = performance.now();
+    invokeHooks(hooks, (h) => h.onTaskStart?.(taskObject));
+    workPromise = runWork().then(
+      (value) => transitionToCompleted(value),
+      (reason) => transitionToFailed(reason),
+    );
+    if (scopeEntry && creationStore) trackScopeTaskWork(creationStore, scopeEntry, workPromise);
+  }
+
   const parentSignal = options?.signal;
   if (parentSignal?.aborted) {
     taskObject = makeTaskObject();
@@ -234,7 +283,9 @@ export function runTask<T>(
         : (parentSignal.reason as CancelReason);
     invokeHooks(hooks, (h) => h.onTaskCancel?.(taskObject, reason));
     transitionToCanceled(reason);
-    registerScopeTask(parentSignal, taskObject, workPromise);
+    // Canceled before it started: there is no work to wait for.
+    const entry = registerScopeTask(parentSignal, taskObject);
+    if (entry) entry.workSettled = true;
     return taskObject;
   }
   if (parentSignal) {
@@ -248,8 +299,14 @@ export function runTask<T>(
     });
   }
 
-  startTime = performance.now();
   taskObject = makeTaskObject();
+  if (lazy) {
+    // Nobody may ever await a lazy task; canceling it before it starts must not surface as an unhandled rejection.
+    thenablePromise.catch(() => {});
+    scopeEntry = registerScopeTask(options?.signal, taskObject);
+    return taskObject;
+  }
+  startTime = performance.now();
   invokeHooks(hooks, (h) => h.onTaskStart?.(taskObject));
   workPromise = work(signal).then(
     (value) => transitionToCompleted(value),
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import { sync, createBatcher } from "taskloom";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("task.batcher", () => {
+  it("coalesces concurrent loads into one batchFn call and dedupes keys", async () => {
+    const batchFn = vi.fn(async (keys: number[]) => keys.map((k) => `user ${k}`));
+    const result = await sync(async ({ task }) => {
+      const users = task.batcher(batchFn);
+      const a = task((signal) => users.load(1, signal));
+      const b = task((signal) => users.load(2, signal));
+      const c = task((signal) => users.load(1, signal));
+      return task.all([a, b, c]);
+    });
+    expect(result).toEqual(["user 1", "user 2", "user 1"]);
+    expect(batchFn).toHaveBeenCalledTimes(1);
+    expect(batchFn.mock.calls[0][0]).toEqual([1, 2]);
+  });
+
+  it("splits batches at maxBatchSize and waits maxWaitMs for more keys", async () => {
+    const batchFn = vi.fn(async (keys: number[]) => keys);
+    await sync(async ({ task }) => {
+      const loader = task.batcher(batchFn, { maxBatchSize: 2, maxWaitMs: 10 });
+      const first = loader.load(1);
+      await delay(2);
+      const rest = [loader.load(2), loader.load(3)];
+      expect(batchFn).toHaveBeenCalledTimes(1);
+      expect(await Promise.all([first, ...rest])).toEqual([1, 2, 3]);
+    });
+    expect(batchFn.mock.calls.map((call) => call[0])).toEqual([[1, 2], [3]]);
+  });
+
+  it("caches values by cacheKey and clear() drops them", async () => {
+    const batchFn = vi.fn(async (keys: { id: number }[]) => keys.map((k) => k.id * 10));
+    await sync(async ({ task }) => {
+      const loader = task.batcher(batchFn, { cacheKey: (key) => key.id });
+      expect(await loader.load({ id: 1 })).toBe(10);
+      expect(await loader.load({ id: 1 })).toBe(10);
+      expect(batchFn).toHaveBeenCalledTimes(1);
+      loader.clear({ id: 1 });
+      expect(await loader.load({ id: 1 })).toBe(10);
+      expect(batchFn).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  it("an Error value rejects only that key's loads; a failed batch rejects all of them", async () => {
+    await sync(async ({ task }) => {
+      const loader = task.batcher(async (keys: number[]) => keys.map((k) => (k === 2 ? new Error("missing 2") : k)));
+      const results = await Promise.allSettled([loader.load(1), loader.load(2)]);
+      expect(results[0]).toEqual({ status: "fulfilled", value: 1 });
+      expect(results[1]).toMatchObject({ status: "rejected", reason: { message: "missing 2" } });
+
+      const failing = task.batcher(async (): Promise<number[]> => {
+        throw new Error("backend down");
+      });
+      await expect(Promise.all([failing.load(1), failing.load(2)])).rejects.toThrow("backend down");
+
+      const short = task.batcher(async (): Promise<number[]> => []);
+      await expect(short.load(1)).rejects.toThrow(
+        "task.batcher batchFn must resolve with an array of 1 values, got: 0 values",
+      );
+    });
+  });
+
+  it("removes a load from the pending batch when its caller task is canceled", async () => {
+    const batchFn = vi.fn(async (keys: number[]) => keys);
+    await sync(async ({ task }) => {
+      const loader = task.batcher(batchFn, { maxWaitMs: 10 });
+      const canceled = task.lazy((signal) => loader.load(1, signal));
+      canceled.start();
+      const kept = task((signal) => loader.load(2, signal));
+      canceled.cancel();
+      await expect(canceled).rejects.toMatchObject({ type: "user-abort" });
+      expect(await kept).toBe(2);
+    });
+    expect(batchFn.mock.calls[0][0]).toEqual([2]);
+  });
+
+  it("aborts a dispatched batch once every waiter is gone", async () => {
+    let batchSignal: AbortSignal | undefined;
+    const controller = new AbortController();
+    const loader = createBatcher(new AbortController().signal, (keys: number[], signal) => {
+      batchSignal = signal;
+      return new Promise<number[]>(() => {});
+    });
+    const a = loader.load(1, controller.signal);
+    const b = loader.load(2, controller.signal);
+    await delay(1);
+    expect(batchSignal?.aborted).toBe(false);
+    controller.abort(new Error("caller gone"));
+    await expect(a).rejects.toThrow("caller gone");
+    await expect(b).rejects.toThrow("caller gone");
+    expect(batchSignal?.aborted).toBe(true);
+  });
+
+  it("rejects pending and in-flight loads and aborts batches when the scope closes", async () => {
+    let batchSignal: AbortSignal | undefined;
+    const scope = new AbortController();
+    const loader = createBatcher(
+      scope.signal,
+      (keys: number[], signal) => {
+        batchSignal = signal;
+        return new Promise<number[]>(() => {});
+      },
+      { maxBatchSize: 2, maxWaitMs: 10 },
+    );
+    const inFlight = loader.load(1);
+    void loader.load(2).catch(() => {});
+    const pending = loader.load(3);
+    scope.abort({ type: "scope-closed" });
+    await expect(inFlight).rejects.toEqual({ type: "scope-closed" });
+    await expect(pending).rejects.toEqual({ type: "scope-closed" });
+    expect(batchSignal?.aborted).toBe(true);
+    await expect(loader.load(4)).rejects.toEqual({ type: "scope-closed" });
+  });
+
+  it("validates options", () => {
+    const signal = new AbortController().signal;
+    expect(() => createBatcher(signal, async (keys: number[]) => keys, { maxBatchSize: 0 })).toThrow(
+      "task.batcher maxBatchSize must be an integer >= 1 or Infinity, got: 0",
+    );
+    expect(() => createBatcher(signal, async (keys: number[]) => keys, { maxWaitMs: -1 })).toThrow(
+      "task.batcher maxWaitMs must be a number >= 0, got: -1",
+    );
+  });
+});
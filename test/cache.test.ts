@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from "vitest";
+import { sync, createTaskCache } from "taskloom";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("createTaskCache", () => {
+  it("returns cached values while fresh and reloads after ttlMs", async () => {
+    const cache = createTaskCache<string, number>({ ttlMs: 20, signal: new AbortController().signal });
+    let version = 0;
+    const work = vi.fn(async () => ++version);
+    expect(await cache.get("config", work)).toBe(1);
+    expect(await cache.get("config", work)).toBe(1);
+    expect(work).toHaveBeenCalledTimes(1);
+    await delay(25);
+    expect(await cache.get("config", work)).toBe(2);
+    expect(work).toHaveBeenCalledTimes(2);
+  });
+
+  it("deduplicates concurrent loads of a key", async () => {
+    const cache = createTaskCache<string, string>({ ttlMs: 1000 });
+    const work = vi.fn(async () => {
+      await delay(5);
+      return "config";
+    });
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => sync(async () => cache.get("config", work))),
+    );
+    expect(results).toEqual(Array(5).fill("config"));
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves stale values within staleWhileRevalidateMs and refreshes them in a background task", async () => {
+    const owner = new AbortController();
+    const cache = createTaskCache<string, number>({
+      ttlMs: 10,
+      staleWhileRevalidateMs: 1000,
+      signal: owner.signal,
+      name: "config-refresh",
+    });
+    let version = 0;
+    const work = vi.fn(async () => {
+      await delay(5);
+      return ++version;
+    });
+    expect(await cache.get("config", work)).toBe(1);
+    await delay(15);
+    expect(await cache.get("config", work)).toBe(1);
+    expect(await cache.get("config", work)).toBe(1);
+    await delay(10);
+    expect(work).toHaveBeenCalledTimes(2);
+    expect(await cache.get("config", work)).toBe(2);
+    owner.abort();
+  });
+
+  it("never caches failures or cancellations", async () => {
+    const cache = createTaskCache<string, string>({ ttlMs: 1000, signal: new AbortController().signal });
+    await expect(
+      cache.get("config", async () => {
+        throw new Error("down");
+      }),
+    ).rejects.toThrow("down");
+
+    const caller = new AbortController();
+    const canceled = cache.get(
+      "config",
+      (signal) => new Promise<string>((_, reject) => signal.addEventListener("abort", () => reject(signal.reason))),
+      caller.signal,
+    );
+    caller.abort({ type: "scope-closed" });
+    await expect(canceled).rejects.toMatchObject({ type: "scope-closed" });
+    expect(cache.size).toBe(0);
+
+    expect(await cache.get("config", async () => "loaded")).toBe("loaded");
+    expect(cache.size).toBe(1);
+  });
+
+  it("a canceled caller detaches while other callers still get the shared load", async () => {
+    const cache = createTaskCache<string, string>({ ttlMs: 1000, signal: new AbortController().signal });
+    const first = new AbortController();
+    const work = vi.fn(async () => {
+      await delay(10);
+      return "config";
+    });
+    const a = cache.get("config", work, first.signal);
+    const b = cache.get("config", work, new AbortController().signal);
+    first.abort({ type: "scope-closed" });
+    await expect(a).rejects.toMatchObject({ type: "scope-closed" });
+    expect(await b).toBe("config");
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects for an already aborted caller signal, even on a hit", async () => {
+    const cache = createTaskCache<string, string>({ ttlMs: 1000, signal: new AbortController().signal });
+    await cache.get("config", async () => "v1");
+    const caller = new AbortController();
+    caller.abort({ type: "scope-closed" });
+    await expect(cache.get("config", async () => "v2", caller.signal)).rejects.toEqual({ type: "scope-closed" });
+  });
+
+  it("does not store a load started before delete or clear", async () => {
+    const cache = createTaskCache<string, string>({ ttlMs: 1000, signal: new AbortController().signal });
+    const slow = (value: string) => async () => {
+      await delay(10);
+      return value;
+    };
+    const deleted = cache.get("a", slow("old-a"));
+    const cleared = cache.get("b", slow("old-b"));
+    cache.delete("a");
+    cache.clear();
+    const fresh = cache.get("a", slow("new-a"));
+    expect(await deleted).toBe("old-a");
+    expect(await cleared).toBe("old-b");
+    expect(await fresh).toBe("new-a");
+    expect(cache.size).toBe(1);
+    expect(await cache.get("a", slow("unused"))).toBe("new-a");
+    expect(await cache.get("b", slow("reloaded"))).toBe("reloaded");
+  });
+
+  it("evicts the least recently used key beyond maxEntries", async () => {
+    const cache = createTaskCache<string, string>({ ttlMs: 1000, maxEntries: 2, signal: new AbortController().signal });
+    const load = (key: string) => cache.get(key, async () => key);
+    await load("a");
+    await load("b");
+    await load("a");
+    await load("c");
+    expect(cache.size).toBe(2);
+    expect(await cache.get("a", async () => "unused")).toBe("a");
+    expect(await cache.get("c", async () => "unused")).toBe("c");
+    expect(await cache.get("b", async () => "b again")).toBe("b again");
+  });
+
+  it("validates options", () => {
+    expect(() => createTaskCache({ ttlMs: -1 })).toThrow("Task cache ttlMs must be a number >= 0, got: -1");
+    expect(() => createTaskCache({ ttlMs: 1, maxEntries: 0 })).toThrow(
+      "Task cache maxEntries must be an integer >= 1, got: 0",
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { sync, createChannel, ChannelClosedError } from "taskloom";
+
+describe("Channel", () => {
+  it("unbuffered send waits for a receiver", async () => {
+    const controller = new AbortController();
+    const ch = createChannel<number>(controller.signal);
+    let sent = false;
+    const sending = ch.send(1).then(() => {
+      sent = true;
+    });
+    await new Promise((r) => setTimeout(r, 5));
+    expect(sent).toBe(false);
+    expect(await ch.receive()).toBe(1);
+    await sending;
+    expect(sent).toBe(true);
+  });
+
+  it("buffered senders apply backpressure once the buffer is full", async () => {
+    const controller = new AbortController();
+    const ch = createChannel<number>(controller.signal, { bufferSize: 2 });
+    await ch.send(1);
+    await ch.send(2);
+    let third = false;
+    const sending = ch.send(3).then(() => {
+      third = true;
+    });
+    await new Promise((r) => setTimeout(r, 5));
+    expect(third).toBe(false);
+    expect(ch.size).toBe(2);
+    expect(await ch.receive()).toBe(1);
+    await sending;
+    expect(third).toBe(true);
+    expect(await ch.receive()).toBe(2);
+    expect(await ch.receive()).toBe(3);
+  });
+
+  it("close lets buffered values drain, then receive rejects and send rejects", async () => {
+    const controller = new AbortController();
+    const ch = createChannel<string>(controller.signal, { bufferSize: 1 });
+    await ch.send("last");
+    ch.close();
+    expect(ch.closed).toBe(true);
+    await expect(ch.send("late")).rejects.toBeInstanceOf(ChannelClosedError);
+    expect(await ch.receive()).toBe("last");
+    await expect(ch.receive()).rejects.toBeInstanceOf(ChannelClosedError);
+  });
+
+  it("for await receives until the channel is closed and drained", async () => {
+    const received = await sync(async ({ task }) => {
+      const ch = task.channel<number>({ bufferSize: 1 });
+      task("producer", async () => {
+        for (let i = 1; i <= 3; i++) await ch.send(i);
+        ch.close();
+      });
+      const consumer = task("consumer", async () => {
+        const values: number[] = [];
+        for await (const v of ch) values.push(v);
+        return values;
+      });
+      return await consumer;
+    });
+    expect(received).toEqual([1, 2, 3]);
+  });
+
+  it("breaking out of for await detaches the pending receive", async () => {
+    const controller = new AbortController();
+    const ch = createChannel<number>(controller.signal);
+    const it = ch[Symbol.asyncIterator]();
+    const next = it.next();
+    await it.return!();
+    await expect(next).resolves.toEqual({ done: true, value: undefined });
+    const sending = ch.send(7);
+    expect(await ch.receive()).toBe(7);
+    await sending;
+  });
+
+  it("scope abort rejects pending senders and receivers with the scope reason", async () => {
+    const controller = new AbortController();
+    const full = createChannel<number>(controller.signal);
+    const empty = createChannel<number>(controller.signal);
+    const sending = full.send(1);
+    const receiving = empty.receive();
+    controller.abort({ type: "scope-closed" });
+    await expect(sending).rejects.toEqual({ type: "scope-closed" });
+    await expect(receiving).rejects.toEqual({ type: "scope-closed" });
+    await expect(empty.send(2)).rejects.toEqual({ type: "scope-closed" });
+  });
+
+  it("rejects an invalid bufferSize synchronously", () => {
+    const controller = new AbortController();
+    expect(() => createChannel(controller.signal, { bufferSize: -1 })).toThrow(
+      "Channel bufferSize must be an integer >= 0",
+    );
+  });
+});
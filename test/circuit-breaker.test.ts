@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  sync,
+  createCircuitBreaker,
+  CircuitOpenError,
+  enableTaskDebug,
+  subscribeTaskDebug,
+  type CircuitState,
+} from "taskloom";
+import { disableTaskDebug } from "../src/debug.js";
+
+afterEach(() => {
+  disableTaskDebug();
+  vi.restoreAllMocks();
+});
+
+const fail = async (): Promise<never> => {
+  throw new Error("upstream down");
+};
+
+describe("createCircuitBreaker", () => {
+  it("opens after failureThreshold failures within windowMs and then fails fast", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, windowMs: 1000, halfOpenAfterMs: 1000 });
+    const signal = new AbortController().signal;
+    await expect(breaker.run(fail, signal)).rejects.toThrow("upstream down");
+    expect(breaker.state).toBe("closed");
+    expect(breaker.failures).toBe(1);
+    await expect(breaker.run(fail, signal)).rejects.toThrow("upstream down");
+    expect(breaker.state).toBe("open");
+    const work = vi.fn(async () => "ok");
+    const rejection = await breaker.run(work, signal).catch((e: unknown) => e);
+    expect(rejection).toBeInstanceOf(CircuitOpenError);
+    expect((rejection as CircuitOpenError).retryAfterMs).toBeGreaterThan(0);
+    expect(work).not.toHaveBeenCalled();
+  });
+
+  it("forgets failures older than windowMs", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, windowMs: 10, halfOpenAfterMs: 1000 });
+    const signal = new AbortController().signal;
+    await breaker.run(fail, signal).catch(() => {});
+    await new Promise((r) => setTimeout(r, 20));
+    await breaker.run(fail, signal).catch(() => {});
+    expect(breaker.state).toBe("closed");
+  });
+
+  it("lets a limited number of probes through in half-open; a success closes, a failure reopens", async () => {
+    const states: Array<[CircuitState, CircuitState]> = [];
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      windowMs: 1000,
+      halfOpenAfterMs: 10,
+      onStateChange: (state, previous) => states.push([state, previous]),
+    });
+    const signal = new AbortController().signal;
+    await breaker.run(fail, signal).catch(() => {});
+    await new Promise((r) => setTimeout(r, 15));
+    expect(breaker.state).toBe("half-open");
+
+    let releaseProbe!: () => void;
+    const probe = breaker.run(() => new Promise<string>((r) => (releaseProbe = () => r("probe"))), signal);
+    await expect(breaker.run(async () => "second", signal)).rejects.toBeInstanceOf(CircuitOpenError);
+    releaseProbe();
+    expect(await probe).toBe("probe");
+    expect(breaker.state).toBe("closed");
+
+    await breaker.run(fail, signal).catch(() => {});
+    await new Promise((r) => setTimeout(r, 15));
+    await breaker.run(fail, signal).catch(() => {});
+    expect(breaker.state).toBe("open");
+    expect(states).toEqual([
+      ["open", "closed"],
+      ["half-open", "open"],
+      ["closed", "half-open"],
+      ["open", "closed"],
+      ["half-open", "open"],
+      ["open", "half-open"],
+    ]);
+  });
+
+  it("treats scope cancellations as neutral and respects isFailure", async () => {
+    const breaker = createCircuitBreaker({
+      failureThreshold: 1,
+      windowMs: 1000,
+      halfOpenAfterMs: 1000,
+      isFailure: (e) => !(e instanceof Error && e.message === "not found"),
+    });
+    await expect(
+      sync(async ({ task, scope }) => {
+        task(async () => {
+          throw new Error("sibling failed");
+        });
+        await breaker.run(
+          (signal) => new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason))),
+          scope.signal,
+        );
+      }),
+    ).rejects.toThrow("sibling failed");
+    await breaker.run(async () => Promise.reject({ type: "user-abort" }), new AbortController().signal).catch(() => {});
+    await breaker.run(async () => Promise.reject(new Error("not found")), new AbortController().signal).catch(() => {});
+    expect(breaker.state).toBe("closed");
+    expect(breaker.failures).toBe(0);
+  });
+
+  it("reports state changes to subscribeTaskDebug", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    enableTaskDebug();
+    const events: unknown[] = [];
+    subscribeTaskDebug((e) => {
+      if (e.kind === "circuitStateChanged") events.push(e);
+    });
+    const breaker = createCircuitBreaker({ failureThreshold: 1, windowMs: 1000, halfOpenAfterMs: 1000, name: "users" });
+    await breaker.run(fail, new AbortController().signal).catch(() => {});
+    breaker.reset();
+    expect(events).toEqual([
+      { kind: "circuitStateChanged", name: "users", from: "closed", to: "open" },
+      { kind: "circuitStateChanged", name: "users", from: "open", to: "closed" },
+    ]);
+  });
+
+  it("rejects invalid options synchronously", () => {
+    expect(() => createCircuitBreaker({ failureThreshold: 0, windowMs: 1000, halfOpenAfterMs: 1000 })).toThrow(
+      "Circuit breaker failureThreshold must be an integer >= 1, got: 0",
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  sync,
+  CountDownLatch,
+  Barrier,
+  BarrierBrokenError,
+  ManualResetEvent,
+  OneShot,
+} from "taskloom";
+
+const tick = () => new Promise((r) => setTimeout(r, 1));
+
+describe("CountDownLatch", () => {
+  it("releases waiters once every worker has counted down", async () => {
+    const ready = new CountDownLatch(3);
+    const order: string[] = [];
+    await sync(async ({ task, scope }) => {
+      for (let i = 0; i < 3; i++) {
+        task(async () => {
+          await tick();
+          order.push(`ready-${i}`);
+          ready.countDown();
+        });
+      }
+      task(async () => {
+        await ready.wait(scope.signal);
+        order.push("start");
+      });
+    });
+    expect(order.at(-1)).toBe("start");
+    expect(ready.count).toBe(0);
+    await ready.wait();
+  });
+
+  it("rejects a wait with the scope reason when the scope aborts", async () => {
+    const latch = new CountDownLatch(1);
+    const controller = new AbortController();
+    const waiting = latch.wait(controller.signal);
+    controller.abort({ type: "scope-closed" });
+    await expect(waiting).rejects.toEqual({ type: "scope-closed" });
+  });
+});
+
+describe("Barrier", () => {
+  it("releases all parties together and is reusable for the next phase", async () => {
+    const barrier = new Barrier(2);
+    const log: string[] = [];
+    await sync(async ({ task, scope }) => {
+      for (const name of ["a", "b"]) {
+        task(async () => {
+          for (const phase of [1, 2]) {
+            log.push(`${name}${phase}`);
+            await barrier.wait(scope.signal);
+          }
+        });
+      }
+    });
+    expect(log.slice(0, 2).sort()).toEqual(["a1", "b1"]);
+    expect(log.slice(2).sort()).toEqual(["a2", "b2"]);
+    expect(barrier.waiting).toBe(0);
+  });
+
+  it("breaks, rejecting every waiter, when a participant in the scope fails", async () => {
+    const barrier = new Barrier(3);
+    const outcomes: unknown[] = [];
+    await expect(
+      sync(async ({ task }) => {
+        task(async (signal) => {
+          await barrier.wait(signal).catch((e: unknown) => {
+            outcomes.push(e);
+            throw e;
+          });
+        });
+        task(async () => {
+          await tick();
+          throw new Error("worker crashed");
+        });
+      }),
+    ).rejects.toThrow("worker crashed");
+    expect(outcomes).toEqual([{ type: "scope-closed" }]);
+    expect(barrier.broken).toBe(true);
+    await expect(barrier.wait()).rejects.toBeInstanceOf(BarrierBrokenError);
+    barrier.reset();
+    expect(barrier.broken).toBe(false);
+  });
+
+  it("a canceled waiter breaks the barrier for the other waiters", async () => {
+    const barrier = new Barrier(3);
+    const canceled = new AbortController();
+    const other = barrier.wait();
+    const leaving = barrier.wait(canceled.signal);
+    canceled.abort("left");
+    await expect(leaving).rejects.toBe("left");
+    await expect(other).rejects.toBe("left");
+  });
+});
+
+describe("ManualResetEvent and OneShot", () => {
+  it("ManualResetEvent releases waiters on set and blocks again after reset", async () => {
+    const event = new ManualResetEvent();
+    const waiting = event.wait();
+    event.set();
+    await waiting;
+    await event.wait();
+    event.reset();
+    const controller = new AbortController();
+    const blocked = event.wait(controller.signal);
+    controller.abort("stop");
+    await expect(blocked).rejects.toBe("stop");
+  });
+
+  it("OneShot delivers the first value to every waiter", async () => {
+    const shot = new OneShot<number>();
+    const waiting = shot.wait();
+    expect(shot.set(1)).toBe(true);
+    expect(shot.set(2)).toBe(false);
+    expect(await waiting).toBe(1);
+    expect(await shot.wait()).toBe(1);
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect } from "vitest";
+import { sync, type Task } from "taskloom";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("task.map", () => {
+  it("keeps input order and caps items in flight at concurrency", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const result = await sync(async ({ task }) =>
+      task.map(
+        [30, 10, 20, 5, 15],
+        async (ms, _signal, index) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await delay(ms);
+          active--;
+          return `${index}:${ms}`;
+        },
+        { concurrency: 2 },
+      ),
+    );
+    expect(result).toEqual(["0:30", "1:10", "2:20", "3:5", "4:15"]);
+    expect(maxActive).toBe(2);
+  });
+
+  it("runs each item as a named child task", async () => {
+    const names: (string | undefined)[] = [];
+    await sync(async ({ task }) =>
+      task.map(["a", "b"], async (item) => item, {
+        name: "users",
+        lifecycleHooks: { onTaskStart: (t: Task) => names.push(t.name) },
+      }),
+    );
+    expect(names).toEqual(["users[0]", "users[1]"]);
+  });
+
+  it("stops on the first failure: cancels items in flight and pulls no more items", async () => {
+    const canceled: number[] = [];
+    const started: number[] = [];
+    const error = await sync(async ({ task }) =>
+      task.map(
+        [0, 1, 2, 3, 4, 5],
+        (item, signal) => {
+          started.push(item);
+          return new Promise<number>((resolve, reject) => {
+            if (item === 1) return void setTimeout(() => reject(new Error("boom")), 5);
+            signal.addEventListener("abort", () => {
+              canceled.push(item);
+              reject(signal.reason);
+            });
+          });
+        },
+        { concurrency: 3 },
+      ),
+    ).catch((e: unknown) => e);
+    expect((error as Error).message).toBe("boom");
+    expect(started).toEqual([0, 1, 2]);
+    expect(canceled.sort()).toEqual([0, 2]);
+  });
+
+  it("settle: true resolves with a PromiseSettledResult per item", async () => {
+    const result = await sync(async ({ task }) =>
+      task.map(
+        [1, 2, 3],
+        async (n) => {
+          if (n === 2) throw new Error("two");
+          return n * 10;
+        },
+        { settle: true, concurrency: 1 },
+      ),
+    );
+    expect(result[0]).toEqual({ status: "fulfilled", value: 10 });
+    expect(result[1]).toMatchObject({ status: "rejected", reason: { message: "two" } });
+    expect(result[2]).toEqual({ status: "fulfilled", value: 30 });
+  });
+
+  it("stopOnError: false runs every item and rejects with an AggregateError in input order", async () => {
+    let ran = 0;
+    const error = await sync(async ({ task }) =>
+      task.map(
+        [3, 2, 1],
+        async (n) => {
+          ran++;
+          await delay(n);
+          if (n !== 2) throw new Error(`fail ${n}`);
+          return n;
+        },
+        { stopOnError: false },
+      ),
+    ).catch((e: unknown) => e);
+    expect(ran).toBe(3);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect((error as AggregateError).errors.map((e: Error) => e.message)).toEqual(["fail 3", "fail 1"]);
+  });
+
+  it("pulls async iterables lazily and closes them when stopping early", async () => {
+    let pulled = 0;
+    let closed = false;
+    async function* source() {
+      try {
+        for (let i = 0; ; i++) {
+          pulled++;
+          yield i;
+        }
+      } finally {
+        closed = true;
+      }
+    }
+    const error = await sync(async ({ task }) =>
+      task.map(
+        source(),
+        async (n) => {
+          await delay(1);
+          if (n === 3) throw new Error("stop");
+          return n;
+        },
+        { concurrency: 2 },
+      ),
+    ).catch((e: unknown) => e);
+    expect((error as Error).message).toBe("stop");
+    expect(pulled).toBeLessThanOrEqual(6);
+    await delay(0);
+    expect(closed).toBe(true);
+  });
+
+  it("rejects with the scope's reason and cancels items when the scope aborts", async () => {
+    let canceled = 0;
+    const error = await sync(async ({ task, scope }) => {
+      const mapped = task.map(
+        [1, 2],
+        (_n, signal) =>
+          new Promise<number>((_, reject) =>
+            signal.addEventListener("abort", () => {
+              canceled++;
+              reject(signal.reason);
+            }),
+          ),
+      );
+      setTimeout(() => scope.abort(new Error("closed")), 5);
+      return mapped;
+    }).catch((e: unknown) => e);
+    expect((error as Error).message).toBe("closed");
+    expect(canceled).toBe(2);
+  });
+
+  it("validates concurrency", async () => {
+    await sync(async ({ task }) => {
+      await expect(task.map([1], async (n) => n, { concurrency: 0 })).rejects.toThrow(
+        "task.map concurrency must be an integer >= 1 or Infinity, got: 0",
+      );
+    });
+  });
+});
+
+describe("task.forEach", () => {
+  it("pulls from the source only as workers free up, plus highWaterMark", async () => {
+    let pulled = 0;
+    let maxAhead = 0;
+    let done = 0;
+    async function* source() {
+      for (let i = 0; i < 8; i++) {
+        pulled++;
+        maxAhead = Math.max(maxAhead, pulled - done);
+        yield i;
+      }
+    }
+    let active = 0;
+    let maxActive = 0;
+    await sync(async ({ task }) => {
+      await task.forEach(
+        source(),
+        async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await delay(5);
+          active--;
+          done++;
+        },
+        { concurrency: 2, highWaterMark: 1 },
+      );
+    });
+    expect(done).toBe(8);
+    expect(maxActive).toBe(2);
+    expect(maxAhead).toBeLessThanOrEqual(4);
+  });
+
+  it("a failing item fails the sync scope, cancels items in flight and closes the source", async () => {
+    let closed = false;
+    let canceled = 0;
+    async function* source() {
+      try {
+        for (let i = 0; ; i++) yield i;
+      } finally {
+        closed = true;
+      }
+    }
+    const error = await sync(async ({ task }) => {
+      task.forEach(
+        source(),
+        (n, signal) =>
+          new Promise<void>((_, reject) => {
+            if (n === 2) return void setTimeout(() => reject(new Error("bad message")), 5);
+            signal.addEventListener("abort", () => {
+              canceled++;
+              reject(signal.reason);
+            });
+          }),
+        { concurrency: 3 },
+      );
+    }).catch((e: unknown) => e);
+    expect((error as Error).message).toBe("bad message");
+    expect(canceled).toBe(2);
+    await delay(0);
+    expect(closed).toBe(true);
+  });
+
+  it("calls the source's return() when the scope aborts", async () => {
+    let closed = false;
+    const source: AsyncIterable<number> = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => new Promise<IteratorResult<number>>(() => {}),
+        return: async () => {
+          closed = true;
+          return { done: true, value: undefined };
+        },
+      }),
+    };
+    const error = await sync(async ({ task, scope }) => {
+      const consumer = task.forEach(source, async () => {});
+      setTimeout(() => scope.abort(new Error("shutdown")), 5);
+      await consumer;
+    }).catch((e: unknown) => e);
+    expect((error as Error).message).toBe("shutdown");
+    expect(closed).toBe(true);
+  });
+
+  it("returns a named task and validates options synchronously", async () => {
+    await sync(async ({ task }) => {
+      const consumer = task.forEach([1, 2], async () => {}, { name: "consume" });
+      expect(consumer.name).toBe("consume");
+      await consumer;
+      expect(() => task.forEach([1], async () => {}, { highWaterMark: -1 })).toThrow(
+        "task.forEach highWaterMark must be an integer >= 0, got: -1",
+      );
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, it, expect, vi } from "vitest";
+import { sync, createLimiter, createKeyedLimiter, createRateLimiter, QueueFullError } from "taskloom";
+
+/** Work that records its start and resolves when released. */
+function gate() {
+  const started: string[] = [];
+  const releases = new Map<string, () => void>();
+  const job = (name: string) => () =>
+    new Promise<string>((resolve) => {
+      started.push(name);
+      releases.set(name, () => resolve(name));
+    });
+  const release = async (name: string) => {
+    releases.get(name)!();
+    await new Promise((r) => setTimeout(r, 0));
+  };
+  return { started, job, release };
+}
+
+describe("createLimiter priority and weight", () => {
+  it("runs queued work by priority, FIFO within a priority", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 1 });
+    const { started, job, release } = gate();
+    const all = Promise.all([
+      limit(job("running")),
+      limit(job("low-1")),
+      limit(job("low-2"), { priority: 0 }),
+      limit(job("urgent"), { priority: 10 }),
+      limit(job("normal"), { priority: 5 }),
+    ]);
+    for (const name of ["running", "urgent", "normal", "low-1", "low-2"]) {
+      expect(started.at(-1)).toBe(name);
+      await release(name);
+    }
+    await all;
+    expect(started).toEqual(["running", "urgent", "normal", "low-1", "low-2"]);
+  });
+
+  it("keeps priority and FIFO order across a long queue", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 1 });
+    const { job, release } = gate();
+    const order: number[] = [];
+    const blocked = limit(job("blocker"));
+    const items = Array.from({ length: 200 }, (_, i) => ({ i, priority: (i * 7) % 5 }));
+    const all = Promise.all(items.map(({ i, priority }) => limit(async () => order.push(i), { priority })));
+    expect(limit.queueDepth).toBe(200);
+    await release("blocker");
+    await Promise.all([blocked, all]);
+    const expected = [...items].sort((a, b) => b.priority - a.priority || a.i - b.i).map(({ i }) => i);
+    expect(order).toEqual(expected);
+  });
+
+  it("ages waiting work so low priorities are not starved", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 1, agingMs: 5 });
+    const { started, job, release } = gate();
+    const all = Promise.all([limit(job("running")), limit(job("old-low"), { priority: 0 })]);
+    await new Promise((r) => setTimeout(r, 30));
+    const late = limit(job("new-high"), { priority: 2 });
+    await release("running");
+    expect(started.at(-1)).toBe("old-low");
+    await release("old-low");
+    await release("new-high");
+    await Promise.all([all, late]);
+  });
+
+  it("weighted work holds several permits and is not overtaken by lighter work", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 3 });
+    const { started, job, release } = gate();
+    const all = Promise.all([
+      limit(job("a")),
+      limit(job("b")),
+      limit(job("heavy"), { weight: 3 }),
+      limit(job("light")),
+    ]);
+    expect(started).toEqual(["a", "b"]);
+    await release("a");
+    expect(started).toEqual(["a", "b"]);
+    await release("b");
+    expect(started).toEqual(["a", "b", "heavy"]);
+    await release("heavy");
+    expect(started).toEqual(["a", "b", "heavy", "light"]);
+    await release("light");
+    await all;
+  });
+
+  it("task.limit still rejects prioritized queued work on scope abort", async () => {
+    const outcomes: unknown[] = [];
+    await expect(
+      sync(async ({ task, scope }) => {
+        const limit = task.limit(1);
+        const running = limit((signal) => new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason))));
+        const queued = limit(async () => "never", { priority: 9, weight: 1 }).catch((e: unknown) => outcomes.push(e));
+        scope.abort({ type: "scope-closed" });
+        await running.catch(() => {});
+        await queued;
+        throw new Error("done");
+      }),
+    ).rejects.toThrow("done");
+    expect(outcomes).toEqual([{ type: "scope-closed" }]);
+  });
+
+  it("rejects the returned Promise for an invalid weight or priority", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 2 });
+    const work = vi.fn(async () => 1);
+    await expect(limit(work, { weight: 3 })).rejects.toThrow("Limiter weight must be an integer between 1 and 2, got: 3");
+    await expect(limit(work, { priority: Number.NaN })).rejects.toThrow("Limiter priority must be a finite number");
+    expect(work).not.toHaveBeenCalled();
+  });
+});
+
+describe("task.limitBy", () => {
+  it("caps concurrency per key and globally", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const perKeyActive = new Map<string, number>();
+    let maxPerKey = 0;
+    await sync(async ({ task }) => {
+      const limit = task.limitBy((tenant: string) => tenant, { perKey: 2, global: 3 });
+      const jobs = ["a", "a", "a", "a", "b", "b", "b", "c"].map((tenant) =>
+        limit(tenant, async () => {
+          active++;
+          perKeyActive.set(tenant, (perKeyActive.get(tenant) ?? 0) + 1);
+          maxActive = Math.max(maxActive, active);
+          maxPerKey = Math.max(maxPerKey, perKeyActive.get(tenant)!);
+          await new Promise((r) => setTimeout(r, 5));
+          perKeyActive.set(tenant, perKeyActive.get(tenant)! - 1);
+          active--;
+        }),
+      );
+      await Promise.all(jobs);
+    });
+    expect(maxActive).toBe(3);
+    expect(maxPerKey).toBe(2);
+  });
+
+  it("hands freed global slots round-robin across keys", async () => {
+    const controller = new AbortController();
+    const limit = createKeyedLimiter(controller.signal, (key: string) => key, { perKey: 5, global: 1 });
+    const { started, job, release } = gate();
+    const all = Promise.all([
+      limit("noisy", job("noisy-1")),
+      limit("noisy", job("noisy-2")),
+      limit("noisy", job("noisy-3")),
+      limit("quiet", job("quiet-1")),
+    ]);
+    await new Promise((r) => setTimeout(r, 0));
+    for (const name of ["noisy-1", "noisy-2", "quiet-1", "noisy-3"]) {
+      expect(started.at(-1)).toBe(name);
+      await release(name);
+    }
+    await all;
+  });
+
+  it("drops idle keys and rejects queued work with the scope reason on abort", async () => {
+    const controller = new AbortController();
+    const limit = createKeyedLimiter(controller.signal, (key: string) => key, { perKey: 1 });
+    await limit("x", async () => 1);
+    expect(limit.activeKeys).toBe(0);
+
+    const running = limit("x", (signal) => new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason))));
+    const queued = limit("x", async () => "never");
+    expect(limit.activeKeys).toBe(1);
+    controller.abort({ type: "scope-closed" });
+    await expect(running).rejects.toEqual({ type: "scope-closed" });
+    await expect(queued).rejects.toEqual({ type: "scope-closed" });
+    expect(limit.activeKeys).toBe(0);
+    await expect(limit("y", async () => 1)).rejects.toEqual({ type: "scope-closed" });
+  });
+});
+
+describe("adaptive limiter", () => {
+  const adaptive = { targetLatencyMs: 20, maxConcurrency: 4, minConcurrency: 1 };
+
+  it("grows the limit additively while latency stays under target", async () => {
+    const controller = new AbortController();
+    const changes: number[] = [];
+    const limit = createLimiter(controller.signal, {
+      concurrency: 1,
+      adaptive: { ...adaptive, onLimitChange: (l) => changes.push(l) },
+    });
+    for (let i = 0; i < 10; i++) await limit(async () => i);
+    expect(limit.concurrency).toBe(4);
+    expect(changes).toEqual([2, 3, 4]);
+  });
+
+  it("cuts the limit multiplicatively once per burst of errors", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 4, adaptive });
+    const failures = Array.from({ length: 4 }, () =>
+      limit(async () => {
+        await new Promise((r) => setTimeout(r, 1));
+        throw new Error("overloaded");
+      }).catch(() => {}),
+    );
+    expect(limit.queueDepth).toBe(0);
+    await Promise.all(failures);
+    expect(limit.concurrency).toBe(2);
+  });
+
+  it("treats latency above target as congestion and reports queue depth", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 2, adaptive });
+    const slow = () => limit(() => new Promise((r) => setTimeout(r, 30)));
+    const all = Promise.all([slow(), slow(), slow()]);
+    expect(limit.queueDepth).toBe(1);
+    await all;
+    expect(limit.concurrency).toBe(1);
+  });
+
+  it("ignores rejections rejected by isError and validates bounds", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, {
+      concurrency: 2,
+      adaptive: { ...adaptive, isError: (e) => (e as Error).message !== "not found" },
+    });
+    await limit(async () => {
+      throw new Error("not found");
+    }).catch(() => {});
+    expect(limit.concurrency).toBe(2);
+    expect(() => createLimiter(controller.signal, { concurrency: 5, adaptive })).toThrow(
+      "Adaptive maxConcurrency must be an integer >= concurrency (5), got: 4",
+    );
+  });
+});
+
+describe("limiter introspection, maxQueue and resizing", () => {
+  it("stats() reports active, queued, completed, rejected and average wait", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 1 });
+    const { job, release } = gate();
+    const first = limit(job("first"));
+    const second = limit(job("second"));
+    const failing = limit(async () => {
+      throw new Error("boom");
+    }).catch(() => {});
+    expect(limit.stats()).toMatchObject({ active: 1, queued: 2, completed: 0, rejected: 0, concurrency: 1 });
+    await new Promise((r) => setTimeout(r, 10));
+    await release("first");
+    await release("second");
+    await Promise.all([first, second, failing]);
+    const stats = limit.stats();
+    expect(stats).toMatchObject({ active: 0, queued: 0, completed: 2, rejected: 1 });
+    expect(stats.averageWaitMs).toBeGreaterThan(0);
+  });
+
+  it("rejects overflow with QueueFullError once maxQueue works are waiting", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 1, maxQueue: 1 });
+    const { job, release } = gate();
+    const running = limit(job("running"));
+    const queued = limit(job("queued"));
+    const shed = limit(job("shed"));
+    await expect(shed).rejects.toBeInstanceOf(QueueFullError);
+    await expect(shed).rejects.toMatchObject({ name: "QueueFullError", maxQueue: 1 });
+    await release("running");
+    await release("queued");
+    expect(await Promise.all([running, queued])).toEqual(["running", "queued"]);
+  });
+
+  it("setConcurrency starts queued work when raised", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 1 });
+    const { started, job, release } = gate();
+    const all = Promise.all([limit(job("a")), limit(job("b")), limit(job("c"))]);
+    expect(started).toEqual(["a"]);
+    limit.setConcurrency(3);
+    expect(started).toEqual(["a", "b", "c"]);
+    expect(limit.concurrency).toBe(3);
+    limit.setConcurrency(1);
+    for (const name of ["a", "b", "c"]) await release(name);
+    await all;
+    expect(() => limit.setConcurrency(0)).toThrow("Concurrency must be an integer between 1 and Infinity, got: 0");
+  });
+
+  it("drain() resolves once nothing is running or queued", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter(controller.signal, { concurrency: 1 });
+    await limit.drain();
+    const { job, release } = gate();
+    limit(job("a"));
+    limit(job("b"));
+    let drained = false;
+    const draining = limit.drain().then(() => {
+      drained = true;
+    });
+    await release("a");
+    expect(drained).toBe(false);
+    await release("b");
+    await draining;
+    expect(drained).toBe(true);
+  });
+});
+
+describe("task.rateLimit", () => {
+  it("lets a burst through, then releases waiters as tokens refill", async () => {
+    const startedAt: number[] = [];
+    const t0 = Date.now();
+    await sync(async ({ task }) => {
+      const rateLimit = task.rateLimit({ tokensPerInterval: 1, intervalMs: 20, burst: 2 });
+      await Promise.all(
+        Array.from({ length: 4 }, () =>
+          rateLimit(async () => {
+            startedAt.push(Date.now() - t0);
+          }),
+        ),
+      );
+    });
+    expect(startedAt[0]).toBeLessThan(10);
+    expect(startedAt[1]).toBeLessThan(10);
+    expect(startedAt[2]).toBeGreaterThanOrEqual(15);
+    expect(startedAt[3]).toBeGreaterThanOrEqual(35);
+  });
+
+  it("rejects pending waits with the scope reason and clears the refill timer on abort", async () => {
+    const controller = new AbortController();
+    const rateLimit = createRateLimiter(controller.signal, { tokensPerInterval: 1, intervalMs: 10_000 });
+    const clearSpy = vi.spyOn(globalThis, "clearTimeout");
+    const work = vi.fn(async () => "ran");
+    expect(await rateLimit(work)).toBe("ran");
+    const waiting = rateLimit(work);
+    controller.abort({ type: "scope-closed" });
+    await expect(waiting).rejects.toEqual({ type: "scope-closed" });
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(clearSpy).toHaveBeenCalled();
+    clearSpy.mockRestore();
+  });
+
+  it("rejects invalid options synchronously", async () => {
+    await sync(async ({ task }) => {
+      expect(() => task.rateLimit({ tokensPerInterval: 0, intervalMs: 1000 })).toThrow(
+        "Rate limiter tokensPerInterval must be an integer >= 1, got: 0",
+      );
+    });
+  });
+});
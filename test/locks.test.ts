@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { sync, Mutex, Semaphore, RWLock } from "taskloom";
+
+const tick = () => new Promise((r) => setTimeout(r, 1));
+
+describe("Mutex", () => {
+  it("serializes critical sections in FIFO order", async () => {
+    const mutex = new Mutex();
+    const order: string[] = [];
+    await sync(async ({ task, scope }) => {
+      for (const name of ["a", "b", "c"]) {
+        task(async () => {
+          const lock = await mutex.acquire(scope.signal);
+          try {
+            order.push(`${name}-in`);
+            await tick();
+            order.push(`${name}-out`);
+          } finally {
+            lock.release();
+          }
+        });
+      }
+    });
+    expect(order).toEqual(["a-in", "a-out", "b-in", "b-out", "c-in", "c-out"]);
+    expect(mutex.locked).toBe(false);
+  });
+
+  it("releases through `using` when the block exits", async () => {
+    const mutex = new Mutex();
+    {
+      using lock = await mutex.acquire();
+      expect(lock.released).toBe(false);
+      expect(mutex.locked).toBe(true);
+    }
+    expect(mutex.locked).toBe(false);
+  });
+
+  it("rejects a waiting acquire with the scope reason and lets later waiters through", async () => {
+    const mutex = new Mutex();
+    const held = await mutex.acquire();
+    const controller = new AbortController();
+    const canceled = mutex.acquire(controller.signal);
+    const next = mutex.acquire();
+    controller.abort({ type: "scope-closed" });
+    await expect(canceled).rejects.toEqual({ type: "scope-closed" });
+    held.release();
+    const lock = await next;
+    expect(mutex.locked).toBe(true);
+    lock.release();
+  });
+
+  it("does not grant a waiter whose signal aborted while the holder on the same signal released", async () => {
+    const mutex = new Mutex();
+    const controller = new AbortController();
+    await mutex.acquire(controller.signal);
+    const waiter = mutex.acquire(controller.signal);
+    controller.abort({ type: "scope-closed" });
+    await expect(waiter).rejects.toEqual({ type: "scope-closed" });
+    expect(mutex.locked).toBe(false);
+    const lock = await mutex.acquire();
+    lock.release();
+  });
+
+  it("releases automatically when the holding task is canceled", async () => {
+    const mutex = new Mutex();
+    await expect(
+      sync(async ({ task, scope }) => {
+        task(async () => {
+          await mutex.acquire(scope.signal);
+          await new Promise((_, reject) => scope.signal.addEventListener("abort", () => reject(scope.signal.reason)));
+        });
+        task(async () => {
+          await tick();
+          throw new Error("sibling failed");
+        });
+      }),
+    ).rejects.toThrow("sibling failed");
+    expect(mutex.locked).toBe(false);
+    (await mutex.acquire()).release();
+  });
+});
+
+describe("Semaphore", () => {
+  it("allows at most `permits` holders at once", async () => {
+    const sem = new Semaphore(2);
+    let active = 0;
+    let maxActive = 0;
+    await sync(async ({ task, scope }) => {
+      for (let i = 0; i < 5; i++) {
+        task(async () => {
+          using _permit = await sem.acquire(scope.signal);
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await tick();
+          active--;
+        });
+      }
+    });
+    expect(maxActive).toBe(2);
+    expect(sem.available).toBe(2);
+  });
+
+  it("rejects invalid permits synchronously", () => {
+    expect(() => new Semaphore(0)).toThrow("Semaphore permits must be an integer >= 1");
+  });
+});
+
+describe("RWLock", () => {
+  it("shares reads, excludes writes, and does not let new readers jump a queued writer", async () => {
+    const lock = new RWLock();
+    const r1 = await lock.acquireRead();
+    const r2 = await lock.acquireRead();
+    expect(lock.readers).toBe(2);
+    const order: string[] = [];
+    const writer = lock.acquireWrite().then((h) => {
+      order.push("write");
+      return h;
+    });
+    const lateReader = lock.acquireRead().then((h) => {
+      order.push("late-read");
+      return h;
+    });
+    r1.release();
+    r2.release();
+    const w = await writer;
+    expect(lock.writeLocked).toBe(true);
+    w.release();
+    (await lateReader).release();
+    expect(order).toEqual(["write", "late-read"]);
+  });
+
+  it("grants readers queued behind a canceled writer", async () => {
+    const lock = new RWLock();
+    const reader = await lock.acquireRead();
+    const controller = new AbortController();
+    const writer = lock.acquireWrite(controller.signal);
+    const queuedReader = lock.acquireRead();
+    controller.abort("gone");
+    await expect(writer).rejects.toBe("gone");
+    const h = await queuedReader;
+    expect(lock.readers).toBe(2);
+    h.release();
+    reader.release();
+  });
+});
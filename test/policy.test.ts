@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from "vitest";
+import { sync, definePolicy, createCircuitBreaker, CircuitOpenError, type Task } from "taskloom";
+
+const signal = (): AbortSignal => new AbortController().signal;
+
+describe("definePolicy", () => {
+  it("runs work through retry and returns its value", async () => {
+    let calls = 0;
+    const policy = definePolicy().retry({ retries: 2, initialDelayMs: 0 });
+    const value = await policy.run(async () => {
+      calls++;
+      if (calls < 3) throw new Error("flaky");
+      return "ok";
+    }, signal());
+    expect(value).toBe("ok");
+    expect(calls).toBe(3);
+  });
+
+  it("applies layers outermost first: timeout bounds all retries together", async () => {
+    let calls = 0;
+    const slow = (s: AbortSignal) =>
+      new Promise<string>((_, reject) => {
+        calls++;
+        const id = setTimeout(() => reject(new Error("slow failure")), 20);
+        s.addEventListener("abort", () => {
+          clearTimeout(id);
+          reject(s.reason);
+        });
+      });
+    const outerTimeout = definePolicy().timeout(50).retry({ retries: 10, initialDelayMs: 0 });
+    await expect(outerTimeout.run(slow, signal())).rejects.toMatchObject({ name: "TimeoutError" });
+    expect(calls).toBeGreaterThan(1);
+    expect(calls).toBeLessThan(10);
+
+    calls = 0;
+    const perAttempt = definePolicy().retry({ retries: 2, initialDelayMs: 0 }).timeout(5);
+    await expect(perAttempt.run(slow, signal())).rejects.toMatchObject({ name: "TimeoutError" });
+    expect(calls).toBe(3);
+  });
+
+  it("fallback replaces failures of the layers added after it, and F joins the result type", async () => {
+    const policy = definePolicy()
+      .fallback((error: unknown) => `fallback: ${(error as Error).message}`)
+      .retry({ retries: 1, initialDelayMs: 0 });
+    const work = vi.fn(async (): Promise<number> => {
+      throw new Error("down");
+    });
+    const value: number | string = await policy.run(work, signal());
+    expect(value).toBe("fallback: down");
+    expect(work).toHaveBeenCalledTimes(2);
+  });
+
+  it("fallback rethrows when the caller's signal aborted", async () => {
+    const controller = new AbortController();
+    const policy = definePolicy().fallback("unused");
+    const run = policy.run(
+      (s) => new Promise<string>((_, reject) => s.addEventListener("abort", () => reject(s.reason))),
+      controller.signal,
+    );
+    controller.abort({ type: "scope-closed" });
+    await expect(run).rejects.toMatchObject({ type: "scope-closed" });
+  });
+
+  it("limit caps concurrent runs of the same policy", async () => {
+    const policy = definePolicy().limit(2);
+    let active = 0;
+    let maxActive = 0;
+    const work = async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((r) => setTimeout(r, 10));
+      active--;
+      return active;
+    };
+    await Promise.all(Array.from({ length: 5 }, () => policy.run(work, signal())));
+    expect(maxActive).toBe(2);
+  });
+
+  it("circuitBreaker fails fast once open; fallback can catch CircuitOpenError", async () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, windowMs: 1000, halfOpenAfterMs: 1000 });
+    let seen: unknown;
+    const policy = definePolicy()
+      .fallback((error: unknown) => {
+        seen = error;
+        return "cached";
+      })
+      .circuitBreaker(breaker);
+    const fail = async (): Promise<string> => {
+      throw new Error("down");
+    };
+    expect(await policy.run(fail, signal())).toBe("cached");
+    expect(breaker.state).toBe("open");
+    const work = vi.fn(async () => "live");
+    expect(await policy.run(work, signal())).toBe("cached");
+    expect(seen).toBeInstanceOf(CircuitOpenError);
+    expect(work).not.toHaveBeenCalled();
+  });
+
+  it("wrap appends another policy's layers inside, and builders are immutable", async () => {
+    const base = definePolicy().retry({ retries: 1, initialDelayMs: 0 });
+    const withFallback = definePolicy().fallback(0).wrap(base);
+    let calls = 0;
+    const fail = async (): Promise<number> => {
+      calls++;
+      throw new Error("down");
+    };
+    expect(await withFallback.run(fail, signal())).toBe(0);
+    expect(calls).toBe(2);
+    calls = 0;
+    await expect(base.run(fail, signal())).rejects.toThrow("down");
+    expect(calls).toBe(2);
+  });
+
+  it("each layer runs as a named task reporting to lifecycleHooks", async () => {
+    const started: string[] = [];
+    const failed: string[] = [];
+    const policy = definePolicy({
+      name: "users",
+      lifecycleHooks: {
+        onTaskStart: (t: Task) => started.push(t.name!),
+        onTaskFail: (t: Task) => failed.push(t.name!),
+      },
+    })
+      .fallback(null)
+      .retry({ retries: 1, initialDelayMs: 0 });
+    expect(
+      await policy.run(async () => {
+        throw new Error("down");
+      }, signal()),
+    ).toBeNull();
+    expect(started).toEqual(["users:fallback", "users:retry"]);
+    expect(failed).toEqual(["users:retry"]);
+  });
+
+  it("validates timeout", () => {
+    expect(() => definePolicy().timeout(-1)).toThrow("Policy timeout must be a number >= 0, got: -1");
+  });
+
+  it("task(work, { policy }) runs scope-bound work through the policy", async () => {
+    let calls = 0;
+    const policy = definePolicy().retry({ retries: 2, initialDelayMs: 0 });
+    const value = await sync(async ({ task }) =>
+      task(
+        async () => {
+          calls++;
+          if (calls < 2) throw new Error("flaky");
+          return "ok";
+        },
+        { name: "fetch", policy },
+      ),
+    );
+    expect(value).toBe("ok");
+    expect(calls).toBe(2);
+  });
+});
@@ -6,12 +6,16 @@ import { describe, it, expect, vi } from "vitest";
 import {
   sync,
   race,
+  any,
+  quorum,
   rush,
   branch,
   spawn,
   spawnScope,
+  supervise,
   runInScope,
   createLimiter,
+  definePolicy,
   type Task,
   type CancelReason,
 } from "taskloom";
@@ -110,6 +114,45 @@ describe("sync", () => {
       expect(t.status).toBe("canceled");
     }
   });
+  it("task.cancel() stops only that task; siblings keep running and sync resolves", async () => {
+    let panel: Task<string> | undefined;
+    const result = await sync(async ({ task }) => {
+      panel = task(
+        async (signal) =>
+          new Promise<string>((_, reject) => {
+            signal.addEventListener("abort", () => reject(signal.reason), {
+              once: true,
+            });
+          }),
+      );
+      const other = task(async () => {
+        await new Promise((r) => setTimeout(r, 10));
+        return "other";
+      });
+      panel.cancel();
+      return await other;
+    });
+    expect(result).toBe("other");
+    expect(panel!.status).toBe("canceled");
+  });
+});
+
+describe("task.lazy", () => {
+  it("runs only the lazy branches that are consumed; the rest are canceled when the scope closes", async () => {
+    const used = vi.fn(async () => "used");
+    const unused = vi.fn(async () => "unused");
+    let unusedTask: Task<string> | undefined;
+    const result = await sync(async ({ task }) => {
+      const a = task.lazy(used);
+      unusedTask = task.lazy("unused", unused);
+      expect(a.status).toBe("created");
+      return await a;
+    });
+    expect(result).toBe("used");
+    expect(used).toHaveBeenCalledTimes(1);
+    expect(unused).not.toHaveBeenCalled();
+    expect(unusedTask!.status).toBe("canceled");
+  });
 });
 
 describe("race", () => {
@@ -140,6 +183,25 @@ describe("race", () => {
     ).rejects.toBe(err);
   });
 
+  it("drops a racer canceled through its own handle; another racer wins", async () => {
+    const siblingSignals: AbortSignal[] = [];
+    const value = await race<number>(async ({ task }) => {
+      const canceled = task(async (signal) => {
+        siblingSignals.push(signal);
+        await new Promise((r) => setTimeout(r, 50));
+        return 1;
+      });
+      task(async (signal) => {
+        siblingSignals.push(signal);
+        await new Promise((r) => setTimeout(r, 10));
+        return 2;
+      });
+      canceled.cancel();
+    });
+    expect(value).toBe(2);
+    expect(siblingSignals[0].reason).toMatchObject({ type: "user-abort" });
+  });
+
   it("cancels non-winning tasks; awaiting them rejects with scope-closed reason", async () => {
     let loser: Task<number> | undefined;
     const winner = await race<number>(async ({ task }) => {
@@ -198,6 +260,120 @@ describe("race", () => {
   });
 });
 
+describe("any", () => {
+  it("resolves with the first fulfilled task even when another fails first", async () => {
+    const value = await any<string>(async ({ task }) => {
+      task(async () => {
+        throw new Error("mirror down");
+      });
+      task(async () => {
+        await new Promise((r) => setTimeout(r, 10));
+        return "replica";
+      });
+    });
+    expect(value).toBe("replica");
+  });
+
+  it("cancels the remaining tasks once one fulfills", async () => {
+    let slow: Task<string> | undefined;
+    await any<string>(async ({ task }) => {
+      task(async () => "fast");
+      slow = task(
+        async (signal) =>
+          new Promise<string>((_, reject) => {
+            signal.addEventListener("abort", () => reject(signal.reason), {
+              once: true,
+            });
+          }),
+      );
+    });
+    expect(slow!.status).toBe("canceled");
+    await expect(slow!).rejects.toMatchObject({ type: "scope-closed" });
+  });
+
+  it("rejects with an AggregateError carrying each task's name when all fail", async () => {
+    const err = await any(async ({ task }) => {
+      task("a", async () => {
+        throw new Error("a failed");
+      });
+      task("b", async () => {
+        throw new Error("b failed");
+      });
+    }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(AggregateError);
+    const aggregate = err as AggregateError & { taskNames: string[] };
+    expect(aggregate.taskNames).toEqual(["a", "b"]);
+    expect(aggregate.errors.map((e: Error) => e.message)).toEqual(["a failed", "b failed"]);
+    expect(aggregate.message).toContain("a, b");
+  });
+
+  it("throws when callback does not start any tasks", async () => {
+    await expect(any(async () => {})).rejects.toThrow("any: callback did not start any tasks");
+  });
+});
+
+describe("quorum", () => {
+  const never = (signal: AbortSignal) =>
+    new Promise<never>((_, reject) => {
+      signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+    });
+
+  it("resolves with the first n successes and their names, canceling stragglers", async () => {
+    let straggler: Task<unknown> | undefined;
+    const acks = await quorum<string>(2, async ({ task }) => {
+      task("a", async () => "a-ok");
+      task("b", async () => {
+        await new Promise((r) => setTimeout(r, 5));
+        return "b-ok";
+      });
+      straggler = task("c", never);
+    });
+    expect(acks).toEqual([
+      { name: "a", value: "a-ok" },
+      { name: "b", value: "b-ok" },
+    ]);
+    expect(straggler!.status).toBe("canceled");
+  });
+
+  it("tolerates failures while the quorum is still reachable", async () => {
+    const acks = await quorum<number>(1, async ({ task }) => {
+      task(async () => {
+        throw new Error("store down");
+      });
+      task(async () => {
+        await new Promise((r) => setTimeout(r, 5));
+        return 1;
+      });
+    });
+    expect(acks).toEqual([{ value: 1 }]);
+  });
+
+  it("rejects as soon as success becomes impossible and cancels the rest", async () => {
+    let pending: Task<unknown> | undefined;
+    const err = await quorum(2, async ({ task }) => {
+      task("a", async () => {
+        throw new Error("a failed");
+      });
+      task("b", async () => {
+        throw new Error("b failed");
+      });
+      pending = task("c", never);
+    }).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(AggregateError);
+    expect((err as AggregateError & { taskNames: string[] }).taskNames).toEqual(["a", "b"]);
+    expect(pending!.status).toBe("canceled");
+  });
+
+  it("validates n and the number of started tasks", async () => {
+    expect(() => quorum(0, async () => {})).toThrow("Quorum must be an integer >= 1");
+    await expect(
+      quorum(3, async ({ task }) => {
+        task(async () => 1);
+      }),
+    ).rejects.toThrow("quorum: callback started 1 tasks but quorum needs 3");
+  });
+});
+
 describe("rush", () => {
   it("resolves with first result and waits for rest", async () => {
     const order: number[] = [];
@@ -217,6 +393,20 @@ describe("rush", () => {
     expect(order).toEqual([2, 1]);
   });
 
+  it("drops a task canceled through its own handle; another task wins", async () => {
+    const value = await rush<number>(async ({ task }) => {
+      const canceled = task(
+        (signal) => new Promise<number>((_, reject) => signal.addEventListener("abort", () => reject(signal.reason))),
+      );
+      task(async () => {
+        await new Promise((r) => setTimeout(r, 5));
+        return 2;
+      });
+      canceled.cancel();
+    });
+    expect(value).toBe(2);
+  });
+
   it("throws when callback does not start any tasks", async () => {
     await expect(rush(async () => {})).rejects.toThrow(
       "rush: callback did not start any tasks",
@@ -799,7 +989,7 @@ describe("optional task name", () => {
   });
 });
 
-describe("task.all, task.race, task.allSettled", () => {
+describe("task.all, task.race, task.any, task.allSettled", () => {
   it("task.all resolves with results in order when all tasks fulfill", async () => {
     const result = await sync(async ({ task }) => {
       const t1 = task(async () => {
@@ -845,6 +1035,56 @@ describe("task.all, task.race, task.allSettled", () => {
     expect(value).toBe(2);
   });
 
+  it("task.any resolves with the first fulfilled task and names tasks when all fail", async () => {
+    const { createContext } = await import("../src/primitives.js");
+    const value = await runInScope(async (scope) => {
+      const { task } = createContext(scope);
+      const a = task(async () => {
+        throw new Error("nope");
+      });
+      const b = task(async () => 2);
+      return await task.any([a, b]);
+    });
+    expect(value).toBe(2);
+    await expect(
+      runInScope(async (scope) => {
+        const { task } = createContext(scope);
+        const x = task("x", async () => {
+          throw new Error("x");
+        });
+        return await task.any([x]);
+      }),
+    ).rejects.toMatchObject({ taskNames: ["x"] });
+  });
+
+  it("task.any rejects an empty list with a clear error", async () => {
+    await sync(async ({ task }) => {
+      await expect(task.any([])).rejects.toThrow("task.any: expected at least one task");
+    });
+  });
+
+  it("task.any cancels the losing tasks once one fulfills", async () => {
+    const signals: AbortSignal[] = [];
+    const untilAborted = (signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<number>((_, reject) => signal.addEventListener("abort", () => reject(signal.reason)));
+    };
+    let losers: Task<number>[] = [];
+    const value = await sync(async ({ task }) => {
+      losers = [task(untilAborted), task(untilAborted)];
+      const winner = task(async () => {
+        await new Promise((r) => setTimeout(r, 5));
+        return 3;
+      });
+      const result = await task.any([...losers, winner]);
+      expect(signals.map((s) => s.aborted)).toEqual([true, true]);
+      return result;
+    });
+    expect(value).toBe(3);
+    expect(losers.map((t) => t.status)).toEqual(["canceled", "canceled"]);
+    expect(signals[0].reason).toMatchObject({ type: "user-abort" });
+  });
+
   it("task.allSettled resolves with settlement results in order", async () => {
     const err = new Error("second fails");
     const { createContext } = await import("../src/primitives.js");
@@ -1034,6 +1274,110 @@ describe("task.timeout", () => {
       }),
     ).rejects.toMatchObject({ message: "Timeout after 80 ms", name: "TimeoutError" });
   });
+
+  it("{ scope: 'task' } cancels only the timed work; siblings keep running", async () => {
+    let workSignal: AbortSignal | undefined;
+    const result = await sync(async ({ task, scope }) => {
+      const sibling = task(async () => {
+        await new Promise((r) => setTimeout(r, 40));
+        return "sibling";
+      });
+      const widget = await task
+        .timeout(
+          10,
+          (signal) => {
+            workSignal = signal;
+            return new Promise<string>(() => {});
+          },
+          { scope: "task" },
+        )
+        .catch((e: Error) => e.name);
+      expect(scope.signal.aborted).toBe(false);
+      return [widget, await sibling];
+    });
+    expect(result).toEqual(["TimeoutError", "sibling"]);
+    expect(workSignal!.reason).toEqual({ type: "timeout", ms: 10 });
+  });
+
+  it("{ scope: 'task', fallback } returns the fallback instead of rejecting", async () => {
+    const result = await sync(async ({ task }) =>
+      Promise.all([
+        task.timeout(5, () => new Promise<string>(() => {}), { scope: "task", fallback: "cached" }),
+        task.timeout(5, () => new Promise<string>(() => {}), { scope: "task", fallback: async () => "computed" }),
+        task.timeout(50, async () => "fresh", { scope: "task", fallback: "cached" }),
+      ]),
+    );
+    expect(result).toEqual(["cached", "computed", "fresh"]);
+  });
+});
+
+describe("task(work, { timeoutMs, fallback })", () => {
+  it("cancels only the timed-out task with a timeout reason; sync keeps running its siblings", async () => {
+    let reason: CancelReason | undefined;
+    let widget: Task<string> | undefined;
+    const result = await sync(async ({ task }) => {
+      widget = task(
+        (signal) =>
+          new Promise<string>((_, reject) => {
+            signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+          }),
+        { name: "widget", timeoutMs: 10 },
+      );
+      widget.onCancel((r) => {
+        reason = r;
+      });
+      const main = task(async () => {
+        await new Promise((r) => setTimeout(r, 30));
+        return "main";
+      });
+      return await main;
+    });
+    expect(result).toBe("main");
+    expect(widget!.status).toBe("canceled");
+    expect(reason).toEqual({ type: "timeout", ms: 10, taskName: "widget" });
+  });
+
+  it("gives nested helpers the task's time budget as the scope deadline", async () => {
+    const err = new Error("fail");
+    const fn = vi.fn().mockRejectedValue(err);
+    const started = Date.now();
+    await expect(
+      sync(async ({ task }) =>
+        task(() => task.retry(fn, { retries: 3, initialDelayMs: 5000 }), { timeoutMs: 1000 }),
+      ),
+    ).rejects.toBe(err);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  it("completes with the fallback on expiry and aborts the work's signal", async () => {
+    let workSignal: AbortSignal | undefined;
+    const value = await sync(async ({ task }) => {
+      const t = task(
+        (signal) => {
+          workSignal = signal;
+          return new Promise<number>(() => {});
+        },
+        { timeoutMs: 5, fallback: () => 0 },
+      );
+      return await t;
+    });
+    expect(value).toBe(0);
+    expect(workSignal!.aborted).toBe(true);
+  });
+
+  it("rejects a negative timeoutMs synchronously", async () => {
+    await sync(async ({ task }) => {
+      expect(() => task(async () => 1, { timeoutMs: -1 })).toThrow("task timeoutMs must be a number >= 0, got: -1");
+      expect(() => task(async () => 1, { timeoutMs: NaN })).toThrow("task timeoutMs must be a number >= 0, got: NaN");
+    });
+  });
+
+  it("rejects a fallback without timeoutMs synchronously", async () => {
+    await sync(async ({ task }) => {
+      expect(() => task(async () => 1, { fallback: 0 })).toThrow("task fallback requires timeoutMs");
+    });
+  });
 });
 
 describe("task.limit", () => {
@@ -1188,4 +1532,363 @@ describe("task.retry", () => {
     expect(d1).toBeGreaterThanOrEqual(25);
     expect(d2).toBeGreaterThanOrEqual(55);
   });
+
+  it("retryIf stops on errors it rejects; cancellation reasons are not retried by default", async () => {
+    const fatal = new Error("fatal");
+    const fn = vi.fn().mockRejectedValueOnce(new Error("transient")).mockRejectedValue(fatal);
+    await expect(
+      sync(async ({ task }) =>
+        task.retry(fn, {
+          retries: 5,
+          initialDelayMs: 1,
+          retryIf: (error) => (error as Error).message === "transient",
+        }),
+      ),
+    ).rejects.toBe(fatal);
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    const canceled = vi.fn().mockRejectedValue({ type: "scope-closed" });
+    await expect(
+      sync(async ({ task }) => task.retry(canceled, { retries: 3, initialDelayMs: 1 })),
+    ).rejects.toEqual({ type: "scope-closed" });
+    expect(canceled).toHaveBeenCalledTimes(1);
+  });
+
+  it("custom backoff, maxDelayMs and jitter shape the delays reported to onRetry", async () => {
+    const delays: number[] = [];
+    const backoff = vi.fn((attempt: number) => attempt * 10);
+    const fn = vi.fn().mockRejectedValueOnce(new Error("a")).mockRejectedValueOnce(new Error("b")).mockResolvedValue("ok");
+    const result = await sync(async ({ task }) =>
+      task.retry(fn, {
+        retries: 3,
+        backoff,
+        maxDelayMs: 15,
+        onRetry: ({ delayMs }) => delays.push(delayMs),
+      }),
+    );
+    expect(result).toBe("ok");
+    expect(backoff).toHaveBeenNthCalledWith(1, 1, new Error("a"));
+    expect(delays).toEqual([10, 15]);
+
+    const jittered: number[] = [];
+    const failing = vi.fn().mockRejectedValue(new Error("x"));
+    await expect(
+      sync(async ({ task }) =>
+        task.retry(failing, {
+          retries: 3,
+          backoff: "exponential",
+          initialDelayMs: 4,
+          jitter: "equal",
+          onRetry: ({ delayMs }) => jittered.push(delayMs),
+        }),
+      ),
+    ).rejects.toThrow("x");
+    jittered.forEach((d, i) => {
+      const base = 4 * Math.pow(2, i);
+      expect(d).toBeGreaterThanOrEqual(base / 2);
+      expect(d).toBeLessThanOrEqual(base);
+    });
+  });
+
+  it("attemptTimeoutMs aborts only the slow attempt and retries", async () => {
+    const signals: AbortSignal[] = [];
+    const fn = vi.fn().mockImplementation((signal: AbortSignal) => {
+      signals.push(signal);
+      return signals.length === 1 ? new Promise(() => {}) : Promise.resolve("fast");
+    });
+    const result = await sync(async ({ task, scope }) => {
+      const value = await task.retry(fn, { retries: 1, initialDelayMs: 1, attemptTimeoutMs: 10 });
+      expect(scope.signal.aborted).toBe(false);
+      return value;
+    });
+    expect(result).toBe("fast");
+    expect(signals[0].reason).toEqual({ type: "timeout", ms: 10 });
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it("stops retrying when the scope deadline cannot fit the next delay", async () => {
+    const err = new Error("fail");
+    const fn = vi.fn().mockRejectedValue(err);
+    await expect(
+      sync(async ({ task }) =>
+        task.timeout(1000, () => task.retry(fn, { retries: 3, initialDelayMs: 5000 })),
+      ),
+    ).rejects.toBe(err);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("task.hedge", () => {
+  const slowUntilAborted = (ms: number, value: string) => (signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      const id = setTimeout(() => resolve(value), ms);
+      signal.addEventListener(
+        "abort",
+        () => {
+          clearTimeout(id);
+          reject(signal.reason);
+        },
+        { once: true },
+      );
+    });
+
+  it("does not hedge when the first attempt settles within delayMs", async () => {
+    const work = vi.fn(async () => "fast");
+    const value = await sync(async ({ task }) => task.hedge(work, { delayMs: 50 }));
+    expect(value).toBe("fast");
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts a duplicate after delayMs, takes the first success and cancels the other attempt", async () => {
+    const signals: AbortSignal[] = [];
+    let calls = 0;
+    const completed: string[] = [];
+    const canceled: string[] = [];
+    const value = await sync(async ({ task }) =>
+      task.hedge(
+        (signal) => {
+          signals.push(signal);
+          calls++;
+          return calls === 1 ? slowUntilAborted(200, "slow")(signal) : slowUntilAborted(5, "hedged")(signal);
+        },
+        {
+          delayMs: 10,
+          lifecycleHooks: {
+            onTaskComplete: (t) => completed.push(t.name!),
+            onTaskCancel: (t) => canceled.push(t.name!),
+          },
+        },
+      ),
+    );
+    expect(value).toBe("hedged");
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(completed).toEqual(["hedge#1"]);
+    expect(canceled).toEqual(["hedge#0"]);
+  });
+
+  it("rejects with the last error when every attempt fails", async () => {
+    let n = 0;
+    await expect(
+      sync(async ({ task }) =>
+        task.hedge(
+          async () => {
+            throw new Error(`attempt ${n++}`);
+          },
+          { delayMs: 10, maxHedges: 2 },
+        ),
+      ),
+    ).rejects.toThrow("attempt 2");
+    expect(n).toBe(3);
+  });
+
+  it("launches no hedge when the scope deadline budget is smaller than delayMs", async () => {
+    const work = vi.fn(slowUntilAborted(30, "only"));
+    const value = await sync(async ({ task }) =>
+      task.timeout(40, () => task.hedge(work, { delayMs: 50 })),
+    );
+    expect(value).toBe("only");
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  it("respects the scope deadline for every hedge, not only the first", async () => {
+    const work = vi.fn(slowUntilAborted(1000, "late"));
+    await sync(async ({ task }) => {
+      await expect(
+        task.timeout(100, () => task.hedge(work, { delayMs: 40, maxHedges: 5 }), { scope: "task" }),
+      ).rejects.toMatchObject({ name: "TimeoutError" });
+      await task.sleep(120);
+      expect(work).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  it("cancels every attempt when the scope aborts", async () => {
+    const signals: AbortSignal[] = [];
+    await expect(
+      runInScope(async (scope) => {
+        const { createContext } = await import("../src/primitives.js");
+        const ctx = createContext(scope);
+        setTimeout(() => scope.abort(), 30);
+        return ctx.task.hedge(
+          (signal) => {
+            signals.push(signal);
+            return slowUntilAborted(1000, "never")(signal);
+          },
+          { delayMs: 10 },
+        );
+      }),
+    ).rejects.toMatchObject({ type: "user-abort" });
+    expect(signals).toHaveLength(2);
+    expect(signals.every((s) => s.aborted)).toBe(true);
+  });
+});
+
+describe("supervise", () => {
+  const untilAborted = (signal: AbortSignal) =>
+    new Promise<never>((_, reject) => {
+      signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+    });
+
+  it("one-for-one restarts only the failed child until it completes", async () => {
+    let runs = 0;
+    const siblingRuns = vi.fn();
+    const result = await supervise(async ({ task }) => {
+      const flaky = task("flaky", async () => {
+        runs++;
+        if (runs < 3) throw new Error(`run ${runs}`);
+        return "ok";
+      });
+      task("steady", async () => {
+        siblingRuns();
+        await new Promise((r) => setTimeout(r, 10));
+      });
+      return await flaky;
+    });
+    expect(result).toBe("ok");
+    expect(runs).toBe(3);
+    expect(siblingRuns).toHaveBeenCalledTimes(1);
+  });
+
+  it("one-for-all restarts every running child with a restart reason", async () => {
+    let failures = 0;
+    const reasons: unknown[] = [];
+    let siblingRuns = 0;
+    await supervise(
+      async ({ task }) => {
+        task(async () => {
+          await new Promise((r) => setTimeout(r, 5));
+          if (failures++ === 0) throw new Error("boom");
+        });
+        task(async (signal) => {
+          siblingRuns++;
+          if (siblingRuns > 1) return;
+          await untilAborted(signal).catch((reason: unknown) => {
+            reasons.push(reason);
+            throw reason;
+          });
+        });
+      },
+      { strategy: "one-for-all" },
+    );
+    expect(siblingRuns).toBe(2);
+    expect(reasons).toEqual([{ type: "restart" }]);
+  });
+
+  it("rest-for-one restarts later children but not earlier ones", async () => {
+    const runs = { first: 0, failing: 0, last: 0 };
+    await supervise(
+      async ({ task }) => {
+        task(async (signal) => {
+          runs.first++;
+          await new Promise((r) => setTimeout(r, 30));
+          if (signal.aborted) throw signal.reason;
+        });
+        task(async () => {
+          runs.failing++;
+          if (runs.failing === 1) throw new Error("boom");
+        });
+        task(async (signal) => {
+          runs.last++;
+          if (runs.last === 1) await untilAborted(signal);
+        });
+      },
+      { strategy: "rest-for-one" },
+    );
+    expect(runs).toEqual({ first: 1, failing: 2, last: 2 });
+  });
+
+  it("fails and cancels every child when restart intensity is exceeded", async () => {
+    let runs = 0;
+    let other: Task<unknown> | undefined;
+    await expect(
+      supervise(
+        async ({ task }) => {
+          task(async () => {
+            runs++;
+            throw new Error("always");
+          });
+          other = task(untilAborted);
+        },
+        { maxRestarts: 2, withinMs: 1000 },
+      ),
+    ).rejects.toThrow("always");
+    expect(runs).toBe(3);
+    expect(other!.status).toBe("canceled");
+  });
+
+  it("waits backoff ms before restarting a failed child", async () => {
+    const times: number[] = [];
+    await supervise(
+      async ({ task }) => {
+        task(async () => {
+          times.push(Date.now());
+          if (times.length === 1) throw new Error("once");
+        });
+      },
+      { backoff: (restart) => restart * 30 },
+    );
+    expect(times).toHaveLength(2);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(25);
+  });
+
+  it("rejects invalid options synchronously", () => {
+    const noop = async () => {};
+    expect(() => supervise(noop, { maxRestarts: -1 })).toThrow("maxRestarts must be an integer >= 0, got: -1");
+    expect(() => supervise(noop, { strategy: "one_for_all" as "one-for-all" })).toThrow(
+      'strategy must be "one-for-one", "one-for-all" or "rest-for-one", got: one_for_all',
+    );
+    expect(() => supervise(noop, { withinMs: Number.NaN })).toThrow("withinMs must be a number >= 0, got: NaN");
+    expect(() => supervise(noop, { backoff: -5 })).toThrow("backoff must be a number >= 0 or a function, got: -5");
+  });
+
+  it("restarts lazy children once they are started", async () => {
+    let runs = 0;
+    const result = await supervise(async ({ task }) => {
+      const unused = task.lazy(async () => "never");
+      const flaky = task.lazy("flaky", async () => {
+        if (++runs < 2) throw new Error("once");
+        return "ok";
+      });
+      expect(unused.status).toBe("created");
+      return await flaky;
+    });
+    expect(result).toBe("ok");
+    expect(runs).toBe(2);
+  });
+
+  it("applies timeoutMs, fallback and policy to children", async () => {
+    let workSignal: AbortSignal | undefined;
+    let attempts = 0;
+    const started = Date.now();
+    const result = await supervise(async ({ task }) => {
+      const timedOut = task(
+        (signal) => {
+          workSignal = signal;
+          return untilAborted(signal);
+        },
+        { timeoutMs: 20 },
+      );
+      const fallback = task(() => new Promise<string>(() => {}), { timeoutMs: 20, fallback: "cached" });
+      const retried = task(
+        async () => {
+          if (++attempts < 2) throw new Error("flaky");
+          return "ok";
+        },
+        { policy: definePolicy().retry({ retries: 1, initialDelayMs: 0 }) },
+      );
+      await expect(timedOut).rejects.toMatchObject({ type: "timeout", ms: 20 });
+      return [await fallback, await retried];
+    });
+    expect(result).toEqual(["cached", "ok"]);
+    expect(workSignal!.aborted).toBe(true);
+    expect(attempts).toBe(2);
+    expect(Date.now() - started).toBeLessThan(200);
+  });
+
+  it("rejects invalid child timeout options synchronously", async () => {
+    await supervise(async ({ task }) => {
+      expect(() => task(async () => 1, { timeoutMs: NaN })).toThrow("task timeoutMs must be a number >= 0, got: NaN");
+      expect(() => task(async () => 1, { fallback: 0 })).toThrow("task fallback requires timeoutMs");
+    });
+  });
 });
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { sync, branch, parseCron, type Task } from "taskloom";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("task.every", () => {
+  it("runs work as named child tasks until stopped", async () => {
+    const names: (string | undefined)[] = [];
+    await sync(async ({ task }) => {
+      const poller = task.every(5, async () => {}, {
+        lifecycleHooks: { onTaskStart: (t: Task) => names.push(t.name) },
+      });
+      await task.sleep(28);
+      poller.stop();
+      expect(poller.nextRunAt).toBeUndefined();
+      const runs = poller.runs;
+      await task.sleep(15);
+      expect(poller.runs).toBe(runs);
+    });
+    expect(names.length).toBeGreaterThanOrEqual(3);
+    expect(names.slice(0, 3)).toEqual(["every#0", "every#1", "every#2"]);
+  });
+
+  it("runs right away with startImmediately", async () => {
+    await sync(async ({ task }) => {
+      const work = vi.fn(async () => {});
+      const poller = task.every(1000, work, { startImmediately: true });
+      await task.sleep(1);
+      expect(work).toHaveBeenCalledTimes(1);
+      expect(poller.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+      poller.stop();
+    });
+  });
+
+  it("overlap: skip drops due runs while one is in progress; queue runs them afterwards", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    const starts = { skip: [] as number[], queue: [] as number[] };
+    const t0 = Date.now();
+    await sync(async ({ task }) => {
+      const slowRun = (log: number[]) => async () => {
+        log.push(Date.now() - t0);
+        await delay(25);
+      };
+      const skip = task.every(10, slowRun(starts.skip));
+      const queue = task.every(10, slowRun(starts.queue), { overlap: "queue" });
+      await vi.advanceTimersByTimeAsync(39);
+      skip.stop();
+      queue.stop();
+      await vi.advanceTimersByTimeAsync(100);
+    });
+    expect(starts.skip).toEqual([10]);
+    expect(starts.queue).toEqual([10, 35]);
+  });
+
+  it("overlap: cancel-previous cancels the run in progress", async () => {
+    const canceled: unknown[] = [];
+    await sync(async ({ task }) => {
+      const poller = task.every(
+        5,
+        (signal) =>
+          new Promise<void>((resolve) => {
+            signal.addEventListener("abort", () => {
+              canceled.push(signal.reason);
+              resolve();
+            });
+          }),
+        { overlap: "cancel-previous" },
+      );
+      await task.sleep(18);
+      poller.stop();
+    });
+    expect(canceled.length).toBeGreaterThanOrEqual(2);
+    expect(canceled[0]).toMatchObject({ type: "user-abort" });
+  });
+
+  it("stops and cancels the run in progress when the scope closes", async () => {
+    let runs = 0;
+    const reasons: unknown[] = [];
+    await branch(async ({ task }) => {
+      task.every(
+        5,
+        (signal) => {
+          runs++;
+          return new Promise<void>((resolve) =>
+            signal.addEventListener("abort", () => {
+              reasons.push(signal.reason);
+              resolve();
+            }),
+          );
+        },
+        { startImmediately: true },
+      );
+      await task.sleep(8);
+    });
+    const runsAtClose = runs;
+    await delay(20);
+    expect(runs).toBe(runsAtClose);
+    expect(reasons).toHaveLength(1);
+  });
+
+  it("validates options", async () => {
+    await sync(async ({ task }) => {
+      expect(() => task.every(0, async () => {})).toThrow("task.every ms must be a number > 0, got: 0");
+      expect(() => task.every(10, async () => {}, { jitter: -1 })).toThrow(
+        "task.every jitter must be a number >= 0, got: -1",
+      );
+      expect(() => task.every(10, async () => {}, { overlap: "drop" as "skip" })).toThrow(
+        'Schedule overlap must be "skip", "queue" or "cancel-previous", got: drop',
+      );
+    });
+  });
+});
+
+describe("task.at", () => {
+  it("runs work once at the given time as a named child task", async () => {
+    const names: (string | undefined)[] = [];
+    await sync(async ({ task }) => {
+      const schedule = task.at(Date.now() + 10, async () => {}, {
+        name: "report",
+        lifecycleHooks: { onTaskStart: (t: Task) => names.push(t.name) },
+      });
+      expect(schedule.nextRunAt).toBeInstanceOf(Date);
+      await task.sleep(20);
+      expect(schedule.runs).toBe(1);
+      expect(schedule.nextRunAt).toBeUndefined();
+    });
+    expect(names).toEqual(["report#0"]);
+  });
+
+  it("never runs when the scope closes first", async () => {
+    const work = vi.fn(async () => {});
+    await branch(async ({ task }) => {
+      task.at(new Date(Date.now() + 20), work);
+    });
+    await delay(30);
+    expect(work).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid dates", async () => {
+    await sync(async ({ task }) => {
+      expect(() => task.at(new Date("nope"), async () => {})).toThrow(
+        "task.at date must be a valid Date or epoch milliseconds",
+      );
+    });
+  });
+});
+
+describe("task.cron", () => {
+  it("runs work at matching minutes", async () => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    vi.setSystemTime(new Date(2026, 0, 5, 12, 3, 30));
+    const work = vi.fn(async () => {});
+    const run = sync(async ({ task }) => {
+      const schedule = task.cron("*/5 * * * *", work);
+      expect(schedule.nextRunAt).toEqual(new Date(2026, 0, 5, 12, 5));
+      await vi.advanceTimersByTimeAsync(90_000);
+      expect(work).toHaveBeenCalledTimes(1);
+      expect(schedule.nextRunAt).toEqual(new Date(2026, 0, 5, 12, 10));
+      await vi.advanceTimersByTimeAsync(5 * 60_000);
+      expect(schedule.runs).toBe(2);
+      schedule.stop();
+    });
+    await run;
+  });
+});
+
+describe("parseCron", () => {
+  const from = new Date(2026, 0, 5, 12, 3, 30); // Monday
+
+  it("supports lists, ranges and steps", () => {
+    expect(parseCron("*/15 * * * *").next(from)).toEqual(new Date(2026, 0, 5, 12, 15));
+    expect(parseCron("0 9 * * 1-5").next(from)).toEqual(new Date(2026, 0, 6, 9, 0));
+    expect(parseCron("30 8,20 * * *").next(from)).toEqual(new Date(2026, 0, 5, 20, 30));
+    expect(parseCron("5/20 * * * *").next(from)).toEqual(new Date(2026, 0, 5, 12, 5));
+    expect(parseCron("0 0 1 */3 *").next(from)).toEqual(new Date(2026, 3, 1, 0, 0));
+  });
+
+  it("treats 7 as Sunday and matches either day field when both are restricted", () => {
+    expect(parseCron("0 0 * * 7").next(from)).toEqual(new Date(2026, 0, 11, 0, 0));
+    expect(parseCron("0 0 15 * 3").next(from)).toEqual(new Date(2026, 0, 7, 0, 0));
+  });
+
+  it("treats a stepped * day field as unrestricted, so both day fields must match", () => {
+    expect(parseCron("0 0 */2 * 1").next(from)).toEqual(new Date(2026, 0, 19, 0, 0));
+    expect(parseCron("0 0 13 * */1").next(from)).toEqual(new Date(2026, 0, 13, 0, 0));
+  });
+
+  it("returns undefined when nothing matches", () => {
+    expect(parseCron("0 0 30 2 *").next(from)).toBeUndefined();
+  });
+
+  it("rejects invalid expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow('Invalid cron expression "* * * *": expected 5 fields, got 4');
+    expect(() => parseCron("60 * * * *")).toThrow('Invalid cron expression "60 * * * *": bad minute field "60"');
+    expect(() => parseCron("* * * * MON")).toThrow('bad day of week field "MON"');
+  });
+});
@@ -295,6 +295,40 @@ describe("withStrictCancellation", () => {
     expect(warnSpy).not.toHaveBeenCalled();
   }, 5000);
 
+  it("does not flag lazy tasks that never started or already settled", async () => {
+    process.env.NODE_ENV = "development";
+    await withStrictCancellation(
+      async (scope) => {
+        const never = runTask(async () => "unused", { signal: scope.signal, name: "lazyNever", lazy: true });
+        const started = runTask(async () => "done", { signal: scope.signal, name: "lazyStarted", lazy: true });
+        const stuck = runTask(() => new Promise<void>(() => {}), { signal: scope.signal, name: "ignoresCancel" });
+        stuck.then(undefined, () => {});
+        expect(await started).toBe("done");
+        scope.abort();
+        expect(never.status).toBe("canceled");
+      },
+      { warnAfterMs: 50 },
+    );
+    await new Promise((r) => setTimeout(r, 120));
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(warnSpy.mock.calls[0][0]).toMatch(/Task ignoresCancel ignored cancellation/);
+  }, 5000);
+
+  it("warns when a started lazy task ignores cancellation", async () => {
+    process.env.NODE_ENV = "development";
+    await withStrictCancellation(
+      async (scope) => {
+        const t = runTask(() => new Promise<void>(() => {}), { signal: scope.signal, name: "lazyStuck", lazy: true });
+        t.start();
+        scope.abort();
+      },
+      { warnAfterMs: 50 },
+    );
+    await new Promise((r) => setTimeout(r, 120));
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(warnSpy.mock.calls[0][0]).toMatch(/Task lazyStuck ignored cancellation/);
+  }, 5000);
+
   it("no warning or no-op in production", async () => {
     process.env.NODE_ENV = "production";
     await withStrictCancellation(
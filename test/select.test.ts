@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from "vitest";
+import { sync, runInScope, createChannel } from "taskloom";
+import { createContext } from "../src/primitives.js";
+
+describe("task.select", () => {
+  it("runs only the handler of the first ready task and clears the losing timer", async () => {
+    const timerHandler = vi.fn(() => "timer");
+    const clearSpy = vi.spyOn(globalThis, "clearTimeout");
+    const value = await sync(async ({ task }) => {
+      const t = task(async () => 21);
+      return await task.select((on) => [
+        on.task(t, (v) => v * 2),
+        on.sleep(1000, timerHandler),
+      ]);
+    });
+    expect(value).toBe(42);
+    expect(timerHandler).not.toHaveBeenCalled();
+    expect(clearSpy).toHaveBeenCalled();
+    clearSpy.mockRestore();
+  });
+
+  it("fires a sleep case when nothing else is ready", async () => {
+    const value = await sync(async ({ task }) =>
+      task.select((on) => [
+        on.sleep(5, () => "idle" as const),
+        on.signal(new AbortController().signal, () => "stopped" as const),
+      ]),
+    );
+    expect(value).toBe("idle");
+  });
+
+  it("fires a signal case with the abort reason and removes listeners from losing signals", async () => {
+    const stop = new AbortController();
+    const other = new AbortController();
+    const removeSpy = vi.spyOn(other.signal, "removeEventListener");
+    const value = await sync(async ({ task }) => {
+      setTimeout(() => stop.abort("stop"), 5);
+      return await task.select((on) => [
+        on.signal(stop.signal, (reason) => reason),
+        on.signal(other.signal, () => "other"),
+      ]);
+    });
+    expect(value).toBe("stop");
+    expect(removeSpy).toHaveBeenCalledWith("abort", expect.any(Function));
+  });
+
+  it("calls return() on losing iterators and leaves the winning one open", async () => {
+    const losingReturn = vi.fn(async () => ({ done: true as const, value: undefined }));
+    const losing: AsyncIterator<number> = {
+      next: () => new Promise(() => {}),
+      return: losingReturn,
+    };
+    const controller = new AbortController();
+    const ch = createChannel<string>(controller.signal, { bufferSize: 1 });
+    await ch.send("msg");
+    const winner = ch[Symbol.asyncIterator]();
+    const winnerReturn = vi.spyOn(winner, "return");
+    const value = await sync(async ({ task }) =>
+      task.select((on) => [
+        on.iterator(losing, () => "losing"),
+        on.iterator(winner, (r) => r.value),
+      ]),
+    );
+    expect(value).toBe("msg");
+    expect(losingReturn).toHaveBeenCalledTimes(1);
+    expect(winnerReturn).not.toHaveBeenCalled();
+  });
+
+  it("rejects when a task case rejects", async () => {
+    await expect(
+      runInScope(async (scope) => {
+        const { task } = createContext(scope);
+        const failing = task(async () => {
+          throw new Error("task failed");
+        });
+        return task.select((on) => [on.task(failing, () => "ok"), on.sleep(1000, () => "late")]);
+      }),
+    ).rejects.toThrow("task failed");
+  });
+
+  it("rejects with the scope reason and detaches every case when the scope aborts", async () => {
+    const iteratorReturn = vi.fn(async () => ({ done: true as const, value: undefined }));
+    await expect(
+      runInScope(async (scope) => {
+        const { task } = createContext(scope);
+        setTimeout(() => scope.abort(), 5);
+        return task.select((on) => [
+          on.sleep(1000, () => "late"),
+          on.iterator({ next: () => new Promise<IteratorResult<number>>(() => {}), return: iteratorReturn }, () => "it"),
+        ]);
+      }),
+    ).rejects.toMatchObject({ type: "user-abort" });
+    expect(iteratorReturn).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects when no cases are given", async () => {
+    await expect(sync(async ({ task }) => task.select(() => []))).rejects.toThrow("select: no cases given");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import { sync, singleFlight } from "taskloom";
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Work that resolves with value after ms, or rejects with the signal's reason on abort. */
+const slow =
+  <T>(value: T, ms: number, onAbort?: (reason: unknown) => void) =>
+  (signal: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+      const id = setTimeout(() => resolve(value), ms);
+      signal.addEventListener("abort", () => {
+        clearTimeout(id);
+        onAbort?.(signal.reason);
+        reject(signal.reason);
+      });
+    });
+
+describe("singleFlight", () => {
+  it("shares one execution between concurrent callers in different scopes", async () => {
+    const work = vi.fn(slow("config", 10));
+    const [a, b] = await Promise.all([
+      sync(async ({ task }) => task.singleFlight("config", work)),
+      sync(async ({ task }) => task.singleFlight("config", work)),
+    ]);
+    expect(a).toBe("config");
+    expect(b).toBe("config");
+    expect(work).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts a new execution once the previous one settled", async () => {
+    const work = vi.fn(async () => "value");
+    const signal = new AbortController().signal;
+    await singleFlight("key", work, { signal });
+    await singleFlight("key", work, { signal });
+    expect(work).toHaveBeenCalledTimes(2);
+  });
+
+  it("a canceled caller detaches without aborting the work for the others", async () => {
+    const aborted = vi.fn();
+    const first = new AbortController();
+    const second = new AbortController();
+    const a = singleFlight("shared", slow("done", 20, aborted), { signal: first.signal });
+    const b = singleFlight("shared", slow("unused", 20), { signal: second.signal });
+    const onCancel = vi.fn();
+    a.onCancel(onCancel);
+    first.abort({ type: "scope-closed" });
+    await expect(a).rejects.toMatchObject({ type: "scope-closed" });
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(await b).toBe("done");
+    expect(aborted).not.toHaveBeenCalled();
+  });
+
+  it("aborts the work once the last waiter is gone", async () => {
+    const aborted = vi.fn();
+    const first = new AbortController();
+    const second = new AbortController();
+    const a = singleFlight("last", slow("done", 50, aborted), { signal: first.signal });
+    const b = singleFlight("last", slow("done", 50), { signal: second.signal });
+    first.abort({ type: "scope-closed" });
+    b.cancel();
+    await expect(a).rejects.toMatchObject({ type: "scope-closed" });
+    await expect(b).rejects.toMatchObject({ type: "user-abort" });
+    expect(aborted).toHaveBeenCalledWith(expect.objectContaining({ type: "user-abort" }));
+
+    const fresh = vi.fn(async () => "fresh");
+    expect(await singleFlight("last", fresh, { signal: new AbortController().signal })).toBe("fresh");
+    expect(fresh).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares a failure with every waiter", async () => {
+    const signal = new AbortController().signal;
+    const fail = async (): Promise<never> => {
+      await delay(1);
+      throw new Error("upstream down");
+    };
+    const results = await Promise.allSettled([
+      singleFlight("failing", fail, { signal }),
+      singleFlight("failing", fail, { signal, name: "second" }),
+    ]);
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ message: "upstream down" });
+  });
+});
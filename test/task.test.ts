@@ -324,3 +324,89 @@ describe("Task lifecycle hooks", () => {
     expect(order).toEqual(["1-start", "2-start", "1-complete", "2-complete"]);
   });
 });
+
+describe("Task cancel()", () => {
+  it("cancels only this task with a user-abort reason, running onCancel and onTaskCancel", async () => {
+    const onTaskCancel = vi.fn<(task: Task, reason: unknown) => void>();
+    const task = runTask(
+      async (signal) => {
+        await new Promise<never>((_, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+        });
+      },
+      { lifecycleHooks: { onTaskCancel } },
+    );
+    let received: CancelReason | undefined;
+    task.onCancel((r) => {
+      received = r;
+    });
+    task.cancel();
+    await task.then(undefined, () => {});
+    expect(task.status).toBe("canceled");
+    expect(received).toMatchObject({ type: "user-abort" });
+    expect(onTaskCancel).toHaveBeenCalledTimes(1);
+    expect(onTaskCancel).toHaveBeenCalledWith(task, received);
+  });
+
+  it("passes a custom reason through and leaves the parent signal untouched", async () => {
+    const parent = new AbortController();
+    const task = runTask(
+      async (signal) => {
+        await new Promise<never>((_, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason), { once: true });
+        });
+      },
+      { signal: parent.signal },
+    );
+    task.cancel("navigated-away");
+    await expect(task).rejects.toBe("navigated-away");
+    expect(parent.signal.aborted).toBe(false);
+  });
+
+  it("is a no-op once the task has completed", async () => {
+    const spy = vi.fn();
+    const task = runTask(async () => "ok");
+    task.onCancel(spy);
+    await task;
+    task.cancel();
+    expect(task.status).toBe("completed");
+    expect(spy).not.toHaveBeenCalled();
+  });
+});
+
+describe("Lazy tasks", () => {
+  it("stays in created state until awaited, then runs", async () => {
+    const work = vi.fn(async () => "ok");
+    const task = runTask(work, { lazy: true });
+    expect(task.status).toBe("created");
+    await Promise.resolve();
+    expect(work).not.toHaveBeenCalled();
+    expect(await task).toBe("ok");
+    expect(work).toHaveBeenCalledTimes(1);
+    expect(task.status).toBe("completed");
+  });
+
+  it("start() runs the work and fires onTaskStart once", async () => {
+    const onTaskStart = vi.fn<(task: Task) => void>();
+    const task = runTask(async () => 1, { lazy: true, lifecycleHooks: { onTaskStart } });
+    expect(onTaskStart).not.toHaveBeenCalled();
+    task.start();
+    task.start();
+    expect(task.status).toBe("running");
+    expect(onTaskStart).toHaveBeenCalledTimes(1);
+    expect(await task).toBe(1);
+  });
+
+  it("is canceled without running when its signal aborts before it starts", async () => {
+    const controller = new AbortController();
+    const work = vi.fn(async () => "never");
+    const task = runTask(work, { signal: controller.signal, lazy: true });
+    const spy = vi.fn();
+    task.onCancel(spy);
+    controller.abort({ type: "scope-closed" });
+    expect(task.status).toBe("canceled");
+    expect(spy).toHaveBeenCalledWith({ type: "scope-closed" });
+    await expect(task).rejects.toMatchObject({ type: "scope-closed" });
+    expect(work).not.toHaveBeenCalled();
+  });
+});